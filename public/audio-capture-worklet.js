@@ -0,0 +1,44 @@
+// AudioWorklet that hands raw microphone samples to whoever asked for them.
+//
+// Runs on the audio rendering thread, so it does nothing but copy: the
+// 128-sample blocks Web Audio delivers are gathered into larger chunks and
+// posted to every MessagePort connected through the node's port, letting
+// src/workers/keyword-spotter.worker.ts take audio without it passing
+// through the page. Kept as plain JavaScript so it can be loaded with
+// audioWorklet.addModule() from the site root without a build step.
+
+const CHUNK_SIZE = 2048
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super()
+    this.ports = []
+    this.chunk = new Float32Array(CHUNK_SIZE)
+    this.filled = 0
+    this.port.onmessage = (event) => {
+      if (event.data?.type === "connect") this.ports.push(event.data.port)
+    }
+  }
+
+  process(inputs) {
+    // First channel only; speech doesn't need stereo
+    const samples = inputs[0]?.[0]
+    if (!samples) return true
+
+    let offset = 0
+    while (offset < samples.length) {
+      const count = Math.min(samples.length - offset, CHUNK_SIZE - this.filled)
+      this.chunk.set(samples.subarray(offset, offset + count), this.filled)
+      this.filled += count
+      offset += count
+
+      if (this.filled === CHUNK_SIZE) {
+        for (const port of this.ports) port.postMessage(this.chunk.slice())
+        this.filled = 0
+      }
+    }
+    return true
+  }
+}
+
+registerProcessor("capture-processor", CaptureProcessor)
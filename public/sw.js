@@ -0,0 +1,202 @@
+// Service worker for Emergency Buddy.
+//
+// Keeps the app shell cached so the app opens with no connectivity, and
+// replays the IndexedDB queues written by src/lib/outbox.ts and
+// src/lib/evidence-upload.ts when Background Sync reports the network is
+// back, even after every tab has been closed. Kept as plain JavaScript so
+// it can be served from the site root without a build step.
+
+const CACHE_NAME = "alert-buddy-shell-v2"
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon.svg", "/favicon.ico", "/audio-capture-worklet.js"]
+
+const DB_NAME = "alert-buddy"
+const SYNC_TAGS = { outbox: "outbox", evidenceUpload: "evidence-upload" }
+
+// Vite fingerprints everything under /assets/, so whatever index.html
+// references is exactly the build to keep
+async function precacheShell() {
+  const cache = await caches.open(CACHE_NAME)
+  await cache.addAll(SHELL_URLS)
+  const html = await (await cache.match("/")).text()
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((match) => match[1])
+  await cache.addAll(assets)
+
+  // Workers are only named inside the scripts that start them, and the
+  // keyword spotter is needed precisely when there's no network to fetch it
+  const scripts = await Promise.all(
+    assets.filter((url) => url.endsWith(".js")).map(async (url) => (await cache.match(url)).text())
+  )
+  const workers = scripts.flatMap((script) =>
+    [...script.matchAll(/"(\/assets\/[\w.-]+\.worker-[\w-]+\.js)"/g)].map((match) => match[1])
+  )
+  await cache.addAll([...new Set(workers)])
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()))
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (request.method !== "GET" || url.origin !== self.location.origin) return
+
+  // Pages: fresh when online, the cached shell when not. Routing happens
+  // client side, so "/" serves every path.
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone()
+          caches.open(CACHE_NAME).then((cache) => cache.put("/", copy))
+          return response
+        })
+        .catch(() => caches.match("/"))
+    )
+    return
+  }
+
+  event.respondWith(
+    caches.match(request).then(
+      (cached) =>
+        cached ??
+        fetch(request).then((response) => {
+          if (response.ok && url.pathname.startsWith("/assets/")) {
+            const copy = response.clone()
+            caches.open(CACHE_NAME).then((cache) => cache.put(request, copy))
+          }
+          return response
+        })
+    )
+  )
+})
+
+const requestToPromise = (request) =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+// Opens the app's database at whatever version it is. If the app has never
+// created it there is nothing to send, and creating it here would skip the
+// app's own migrations.
+function openDatabase() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME)
+    request.onupgradeneeded = () => request.transaction.abort()
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function firstItem(db, storeName) {
+  if (!db.objectStoreNames.contains(storeName)) return undefined
+  const [item] = await requestToPromise(db.transaction(storeName).objectStore(storeName).getAll(null, 1))
+  return item
+}
+
+// Mirrors CLAIM_MS in src/lib/outbox.ts
+const CLAIM_MS = 60000
+
+// Takes the oldest queued item and marks it as being sent, in one
+// transaction, so the page's flushOutbox never sends it as well. Resolves
+// undefined when the queue is empty or its oldest item is being sent by a
+// page; that one has to finish first.
+function claimFirst(db, storeName) {
+  if (!db.objectStoreNames.contains(storeName)) return Promise.resolve(undefined)
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, "readwrite")
+    const request = transaction.objectStore(storeName).openCursor()
+    let claimed
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor || (cursor.value.claimedUntil ?? 0) > Date.now()) return
+      claimed = { ...cursor.value, claimedUntil: Date.now() + CLAIM_MS }
+      cursor.update(claimed)
+    }
+    transaction.oncomplete = () => resolve(claimed)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+function releaseItem(db, storeName, item) {
+  return requestToPromise(
+    db.transaction(storeName, "readwrite").objectStore(storeName).put({ ...item, claimedUntil: null })
+  )
+}
+
+function deleteItem(db, storeName, id) {
+  return requestToPromise(db.transaction(storeName, "readwrite").objectStore(storeName).delete(id))
+}
+
+// Mirrors UploadError in src/lib/evidence-upload.ts: other 4xx responses
+// are dropped rather than left to block everything queued behind them
+const isUploadSettled = (response) =>
+  response.ok || (response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429)
+
+// Mirrors sendItem in src/lib/evidence-upload.ts
+function sendUploadItem(item) {
+  const base = `${item.endpoint.replace(/\/+$/, "")}/uploads/${encodeURIComponent(item.uploadId)}`
+  return item.kind === "chunk"
+    ? fetch(`${base}/chunks/${item.seq}`, {
+        method: "PUT",
+        headers: { "Content-Type": item.mimeType, "X-Incident-Id": item.incidentId },
+        body: item.blob,
+      })
+    : fetch(`${base}/complete`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ incidentId: item.incidentId, chunks: item.seq, mimeType: item.mimeType }),
+      })
+}
+
+function sendOutboxItem(item) {
+  return fetch(item.url, { method: item.method, headers: item.headers, body: item.body })
+}
+
+// Sends queued items in order. Throwing leaves the rest queued and tells the
+// browser to try this sync again later. Queues whose items must not be sent
+// twice take them with claimFirst.
+async function drain(storeName, send, isDone, take = firstItem) {
+  let db
+  try {
+    db = await openDatabase()
+  } catch {
+    return
+  }
+  try {
+    for (;;) {
+      const item = await take(db, storeName)
+      if (!item) return
+      try {
+        const response = await send(item)
+        if (!isDone(response)) throw new Error(`HTTP ${response.status}`)
+      } catch (error) {
+        // Handed back so an open page can retry it without waiting out the claim
+        if (take === claimFirst) await releaseItem(db, storeName, item)
+        throw error
+      }
+      await deleteItem(db, storeName, item.id)
+    }
+  } finally {
+    db.close()
+  }
+}
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === SYNC_TAGS.outbox) {
+    event.waitUntil(drain("outbox", sendOutboxItem, (response) => response.status < 500, claimFirst))
+  } else if (event.tag === SYNC_TAGS.evidenceUpload) {
+    event.waitUntil(drain("uploadQueue", sendUploadItem, isUploadSettled))
+  }
+})
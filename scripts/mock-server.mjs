@@ -0,0 +1,153 @@
+// Local stand-in for the services the app talks to during an emergency.
+// Run with `npm run mock-server`, then point the webhook URL in Settings
+// at http://localhost:8787/webhook, the relay URL at http://localhost:8787
+// and the evidence upload URL at http://localhost:8787/evidence.
+import http from "node:http";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const EVIDENCE_DIR = process.env.EVIDENCE_DIR ?? path.join(os.tmpdir(), "alert-buddy-evidence");
+
+const received = [];
+// code -> { incidentId, contactId, contactName, acknowledgedAt }
+const ackCodes = new Map();
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, PUT, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, X-Incident-Id",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+};
+
+const readJson = (req) =>
+  new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+const escapeHtml = (text) =>
+  String(text).replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const parts = [];
+    req.on("data", (chunk) => parts.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(parts)));
+    req.on("error", reject);
+  });
+
+const uploadDir = (uploadId) => path.join(EVIDENCE_DIR, uploadId.replace(/[^\w-]/g, ""));
+
+const sendHtml = (res, status, message) => {
+  res.writeHead(status, { "Content-Type": "text/html; charset=utf-8" });
+  res.end(`<!doctype html><meta name="viewport" content="width=device-width"><h1>${escapeHtml(message)}</h1>`);
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === "OPTIONS") {
+    return send(res, 204);
+  }
+
+  if (req.method === "POST" && url.pathname === "/webhook") {
+    try {
+      const alert = await readJson(req);
+      received.push(alert);
+      console.log("[webhook]", JSON.stringify(alert));
+      return send(res, 200, { ok: true });
+    } catch {
+      return send(res, 400, { error: "Invalid JSON" });
+    }
+  }
+
+  if (req.method === "GET" && url.pathname === "/webhook") {
+    return send(res, 200, received);
+  }
+
+  const codesMatch = url.pathname.match(/^\/incidents\/([^/]+)\/codes$/);
+  if (req.method === "POST" && codesMatch) {
+    try {
+      const { code, contactId, contactName } = await readJson(req);
+      ackCodes.set(code, { incidentId: decodeURIComponent(codesMatch[1]), contactId, contactName, acknowledgedAt: null });
+      return send(res, 201, { ok: true });
+    } catch {
+      return send(res, 400, { error: "Invalid JSON" });
+    }
+  }
+
+  const acksMatch = url.pathname.match(/^\/incidents\/([^/]+)\/acks$/);
+  if (req.method === "GET" && acksMatch) {
+    const incidentId = decodeURIComponent(acksMatch[1]);
+    const acks = [...ackCodes.entries()]
+      .filter(([, entry]) => entry.incidentId === incidentId && entry.acknowledgedAt)
+      .map(([code, entry]) => ({ code, contactId: entry.contactId, at: entry.acknowledgedAt }));
+    return send(res, 200, acks);
+  }
+
+  // Opened by the contact from the link in their alert
+  const ackMatch = url.pathname.match(/^\/ack\/([^/]+)$/);
+  if (req.method === "GET" && ackMatch) {
+    const entry = ackCodes.get(decodeURIComponent(ackMatch[1]).toUpperCase());
+    if (!entry) {
+      return sendHtml(res, 404, "Unknown or expired code");
+    }
+    entry.acknowledgedAt ??= Date.now();
+    console.log(`[ack] ${entry.contactName} acknowledged incident ${entry.incidentId}`);
+    return sendHtml(res, 200, `Thanks ${entry.contactName}, they know you're on your way.`);
+  }
+
+  const chunkMatch = url.pathname.match(/^\/evidence\/uploads\/([^/]+)\/chunks\/(\d+)$/);
+  if (req.method === "PUT" && chunkMatch) {
+    const dir = uploadDir(decodeURIComponent(chunkMatch[1]));
+    const body = await readBody(req);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, chunkMatch[2].padStart(8, "0")), body);
+    console.log(`[evidence] ${path.basename(dir)} chunk ${chunkMatch[2]} (${body.length} bytes)`);
+    return send(res, 200, { ok: true });
+  }
+
+  const statusMatch = url.pathname.match(/^\/evidence\/uploads\/([^/]+)$/);
+  if (req.method === "GET" && statusMatch) {
+    const files = await fs.readdir(uploadDir(decodeURIComponent(statusMatch[1]))).catch(() => []);
+    return send(res, 200, { received: files.filter((file) => /^\d+$/.test(file)).map(Number) });
+  }
+
+  // Stitches the chunks back into a single playable file
+  const completeMatch = url.pathname.match(/^\/evidence\/uploads\/([^/]+)\/complete$/);
+  if (req.method === "POST" && completeMatch) {
+    const dir = uploadDir(decodeURIComponent(completeMatch[1]));
+    const { chunks, mimeType } = (await readJson(req)) ?? {};
+    const buffers = [];
+    for (let seq = 0; seq < chunks; seq++) {
+      try {
+        buffers.push(await fs.readFile(path.join(dir, String(seq).padStart(8, "0"))));
+      } catch {
+        return send(res, 409, { error: `Missing chunk ${seq}` });
+      }
+    }
+    const extension = String(mimeType ?? "audio/webm").split("/")[1]?.split(";")[0] || "webm";
+    const file = path.join(dir, `recording.${extension}`);
+    await fs.writeFile(file, Buffer.concat(buffers));
+    console.log(`[evidence] ${path.basename(dir)} complete: ${file}`);
+    return send(res, 200, { ok: true });
+  }
+
+  send(res, 404, { error: "Not found" });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,73 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+const PIN_LENGTH = 4;
+
+interface CancelPinDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** What entering the PIN will do */
+  description?: string;
+  /** Returns false when the PIN was not accepted */
+  onSubmit: (pin: string) => boolean;
+}
+
+const CancelPinDialog: React.FC<CancelPinDialogProps> = ({
+  open,
+  onOpenChange,
+  description = 'Enter your PIN to stop the emergency protocol',
+  onSubmit
+}) => {
+  const [pin, setPin] = useState('');
+  const [wrong, setWrong] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setPin('');
+      setWrong(false);
+    }
+  }, [open]);
+
+  const handleComplete = (value: string) => {
+    if (onSubmit(value)) return;
+    setPin('');
+    setWrong(true);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 text-white border-gray-700 max-w-xs">
+        <DialogHeader>
+          <DialogTitle>Enter PIN</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {description}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col items-center gap-2">
+          <InputOTP
+            maxLength={PIN_LENGTH}
+            value={pin}
+            onChange={(value) => {
+              setPin(value);
+              setWrong(false);
+            }}
+            onComplete={handleComplete}
+            inputMode="numeric"
+            pattern="^[0-9]*$"
+            autoFocus
+          >
+            <InputOTPGroup>
+              {Array.from({ length: PIN_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} className="border-gray-600 text-lg" />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+          {wrong && <p className="text-xs text-red-400">Wrong PIN</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelPinDialog;
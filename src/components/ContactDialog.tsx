@@ -0,0 +1,318 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useFieldArray, useForm, Resolver } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { AlertTransportId, TRANSPORT_LABELS } from "@/lib/alert-transports";
+import {
+  CONTACT_LANGUAGES,
+  ContactFields,
+  MESSAGING_SERVICES,
+  MessagingService,
+  PHONE_LABELS,
+  createContactFieldsSchema
+} from "@/lib/contacts";
+import { CountryCode, formatPhone, getDefaultCountry, listCountries, normalizePhone } from "@/lib/phone";
+
+interface ContactDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  submitLabel: string;
+  initial: ContactFields;
+  onSubmit: (contact: ContactFields) => void;
+}
+
+const MESSAGING_LABELS: Record<MessagingService, string> = {
+  whatsapp: "WhatsApp",
+  signal: "Signal",
+  telegram: "Telegram",
+  other: "Other"
+};
+
+const languageNames = typeof Intl.DisplayNames === 'function'
+  ? new Intl.DisplayNames(undefined, { type: 'language' })
+  : null;
+
+const languageLabel = (code: string) => languageNames?.of(code) ?? code;
+
+const selectClassName = "w-full p-2 rounded bg-gray-800 border border-gray-600";
+const messageClassName = "text-xs text-red-400";
+
+const ContactDialog: React.FC<ContactDialogProps> = ({
+  open,
+  onOpenChange,
+  title,
+  submitLabel,
+  initial,
+  onSubmit
+}) => {
+  const [country, setCountry] = useState<CountryCode>(getDefaultCountry);
+  const countries = useMemo(listCountries, []);
+
+  // Validation always reads numbers against the country currently picked
+  const countryRef = useRef(country);
+  countryRef.current = country;
+  const resolver: Resolver<ContactFields> = (values, context, options) =>
+    zodResolver(createContactFieldsSchema(countryRef.current))(values, context, options);
+
+  const form = useForm<ContactFields>({ resolver, defaultValues: initial });
+  const phones = useFieldArray({ control: form.control, name: 'phones' });
+  const messaging = useFieldArray({ control: form.control, name: 'messaging' });
+
+  // Start every edit session from the contact as it is stored
+  useEffect(() => {
+    if (open) {
+      form.reset(initial);
+    }
+  }, [open, initial, form]);
+
+  const handleSubmit = form.handleSubmit(contact => {
+    onSubmit(contact);
+    onOpenChange(false);
+  });
+
+  // Keep a language that came from elsewhere selectable
+  const language = form.watch('language');
+  const languages: string[] = (CONTACT_LANGUAGES as readonly string[]).includes(language)
+    ? [...CONTACT_LANGUAGES]
+    : [language, ...CONTACT_LANGUAGES];
+
+  const phoneErrors = form.formState.errors.phones;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 text-white border-gray-700 max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="Contact name" className="bg-gray-800 border-gray-600" />
+                  </FormControl>
+                  <FormMessage className={messageClassName} />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="relationship"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Relationship</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="e.g. Sister, Neighbour, Doctor" className="bg-gray-800 border-gray-600" />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium">Phone Numbers</span>
+                <select
+                  value={country}
+                  onChange={(e) => setCountry(e.target.value as CountryCode)}
+                  aria-label="Country for numbers without a country code"
+                  className="p-1 rounded bg-gray-800 border border-gray-600 text-xs max-w-[10rem]"
+                >
+                  {countries.map(({ code, name, callingCode }) => (
+                    <option key={code} value={code}>{name} (+{callingCode})</option>
+                  ))}
+                </select>
+              </div>
+              {phones.fields.map((phone, index) => (
+                <FormField
+                  key={phone.id}
+                  control={form.control}
+                  name={`phones.${index}.number`}
+                  render={({ field }) => {
+                    const normalized = field.value ? normalizePhone(field.value, country) : null;
+                    return (
+                      <FormItem className="space-y-1">
+                        <div className="flex gap-2">
+                          <select
+                            {...form.register(`phones.${index}.label`)}
+                            aria-label="Phone type"
+                            className="p-2 rounded bg-gray-800 border border-gray-600 capitalize"
+                          >
+                            {PHONE_LABELS.map(label => (
+                              <option key={label} value={label}>{label}</option>
+                            ))}
+                          </select>
+                          <FormControl>
+                            <Input
+                              {...field}
+                              placeholder="+1234567890"
+                              type="tel"
+                              className="bg-gray-800 border-gray-600 flex-1"
+                            />
+                          </FormControl>
+                          <Button
+                            type="button"
+                            onClick={() => phones.remove(index)}
+                            variant="ghost"
+                            size="sm"
+                            aria-label="Remove phone number"
+                            className="text-red-400"
+                          >
+                            ×
+                          </Button>
+                        </div>
+                        {normalized && normalized !== field.value && (
+                          <p className="text-xs text-gray-400">Dials {formatPhone(normalized)}</p>
+                        )}
+                        <FormMessage className={messageClassName} />
+                      </FormItem>
+                    );
+                  }}
+                />
+              ))}
+              <Button
+                type="button"
+                onClick={() => phones.append({ label: 'mobile', number: '' })}
+                variant="outline"
+                size="sm"
+                className="w-full border-gray-600"
+              >
+                Add Phone Number
+              </Button>
+              <p className="text-xs text-gray-400">
+                The first number is the one called and texted
+              </p>
+              {(phoneErrors?.root?.message ?? phoneErrors?.message) && (
+                <p className={messageClassName}>{phoneErrors?.root?.message ?? phoneErrors?.message}</p>
+              )}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="name@example.com" type="email" className="bg-gray-800 border-gray-600" />
+                  </FormControl>
+                  <FormMessage className={messageClassName} />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <span className="text-sm font-medium">Messaging</span>
+              {messaging.fields.map((entry, index) => (
+                <div key={entry.id} className="flex gap-2">
+                  <select
+                    {...form.register(`messaging.${index}.service`)}
+                    aria-label="Messaging service"
+                    className="p-2 rounded bg-gray-800 border border-gray-600"
+                  >
+                    {MESSAGING_SERVICES.map(service => (
+                      <option key={service} value={service}>{MESSAGING_LABELS[service]}</option>
+                    ))}
+                  </select>
+                  <Input
+                    {...form.register(`messaging.${index}.handle`)}
+                    placeholder="Username or number"
+                    className="bg-gray-800 border-gray-600 flex-1"
+                  />
+                  <Button
+                    type="button"
+                    onClick={() => messaging.remove(index)}
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Remove messaging handle"
+                    className="text-red-400"
+                  >
+                    ×
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                onClick={() => messaging.append({ service: 'whatsapp', handle: '' })}
+                variant="outline"
+                size="sm"
+                className="w-full border-gray-600"
+              >
+                Add Messaging Handle
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <FormField
+                control={form.control}
+                name="preferredChannel"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Alert By</FormLabel>
+                    <FormControl>
+                      <select {...field} className={selectClassName}>
+                        {(Object.keys(TRANSPORT_LABELS) as AlertTransportId[]).map(id => (
+                          <option key={id} value={id}>
+                            {TRANSPORT_LABELS[id]}
+                          </option>
+                        ))}
+                      </select>
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="language"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Language</FormLabel>
+                    <FormControl>
+                      <select {...field} className={selectClassName}>
+                        {languages.map(code => (
+                          <option key={code} value={code}>{languageLabel(code)}</option>
+                        ))}
+                      </select>
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      placeholder="Medical info, best times to reach them, spare key..."
+                      className="bg-gray-800 border-gray-600"
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" className="w-full bg-red-600 hover:bg-red-700">
+              {submitLabel}
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ContactDialog;
@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ContactFields, EmergencyContact } from "@/lib/contacts";
+import { formatPhone } from "@/lib/phone";
+import {
+  CSV_TARGET_LABELS,
+  ContactDraft,
+  CsvTarget,
+  csvRowsToDrafts,
+  detectFormat,
+  guessCsvMapping,
+  parseCsv,
+  parseVCards,
+  reviewImport
+} from "@/lib/contact-io";
+
+interface ContactImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contacts: EmergencyContact[];
+  onImport: (contacts: ContactFields[]) => void;
+}
+
+type ParsedFile =
+  | { format: 'vcard'; drafts: ContactDraft[] }
+  | { format: 'csv'; headers: string[]; rows: string[][] };
+
+const ContactImportDialog: React.FC<ContactImportDialogProps> = ({
+  open,
+  onOpenChange,
+  contacts,
+  onImport
+}) => {
+  const [file, setFile] = useState<ParsedFile | null>(null);
+  const [mapping, setMapping] = useState<CsvTarget[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [readError, setReadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setFile(null);
+      setMapping([]);
+      setReadError(null);
+    }
+  }, [open]);
+
+  const candidates = useMemo(() => {
+    if (!file) return [];
+    const drafts = file.format === 'vcard' ? file.drafts : csvRowsToDrafts(file.rows, mapping);
+    return reviewImport(drafts, contacts);
+  }, [file, mapping, contacts]);
+
+  // Anything valid and new is ticked; duplicates are left for the user to decide
+  useEffect(() => {
+    setSelected(new Set(
+      candidates.flatMap((candidate, index) => candidate.contact && !candidate.duplicateOf ? [index] : [])
+    ));
+  }, [candidates]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0];
+    if (!chosen) return;
+
+    try {
+      const text = await chosen.text();
+      if (detectFormat(chosen.name, text) === 'vcard') {
+        setFile({ format: 'vcard', drafts: parseVCards(text) });
+      } else {
+        const [headers = [], ...rows] = parseCsv(text);
+        setMapping(guessCsvMapping(headers));
+        setFile({ format: 'csv', headers, rows });
+      }
+      setReadError(null);
+    } catch (error) {
+      console.error('Error reading contacts file:', error);
+      setFile(null);
+      setReadError('This file could not be read.');
+    }
+  };
+
+  const toggle = (index: number, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(index);
+      } else {
+        next.delete(index);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    onImport(candidates.flatMap((candidate, index) =>
+      candidate.contact && selected.has(index) ? [candidate.contact] : []
+    ));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 text-white border-gray-700 max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Contacts</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">vCard or CSV file</label>
+            <Input
+              type="file"
+              accept=".vcf,.vcard,.csv,text/vcard,text/csv"
+              onChange={handleFile}
+              className="bg-gray-800 border-gray-600"
+            />
+            {readError && <p className="text-xs text-red-400 mt-1">{readError}</p>}
+          </div>
+
+          {file?.format === 'csv' && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Columns</label>
+              <div className="space-y-2">
+                {file.headers.map((header, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm truncate">{header || `Column ${index + 1}`}</div>
+                      <div className="text-xs text-gray-400 truncate">{file.rows[0]?.[index]}</div>
+                    </div>
+                    <select
+                      value={mapping[index] ?? 'ignore'}
+                      onChange={(e) => {
+                        const next = [...mapping];
+                        next[index] = e.target.value as CsvTarget;
+                        setMapping(next);
+                      }}
+                      aria-label={`Import ${header} as`}
+                      className="p-2 rounded bg-gray-800 border border-gray-600 text-sm"
+                    >
+                      {(Object.keys(CSV_TARGET_LABELS) as CsvTarget[]).map(target => (
+                        <option key={target} value={target}>{CSV_TARGET_LABELS[target]}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {file && (
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Contacts ({selected.size} of {candidates.length} selected)
+              </label>
+              {candidates.length === 0 ? (
+                <p className="text-sm text-gray-400">No contacts found in this file.</p>
+              ) : (
+                <div className="space-y-2">
+                  {candidates.map((candidate, index) => (
+                    <label key={index} className="flex items-start gap-2 bg-gray-800 rounded p-2">
+                      <Checkbox
+                        checked={selected.has(index)}
+                        disabled={!candidate.contact}
+                        onCheckedChange={(checked) => toggle(index, checked === true)}
+                        className="mt-1"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-semibold truncate">
+                          {candidate.draft.name || 'Unnamed'}
+                        </div>
+                        <div className="text-xs text-gray-400 truncate">
+                          {candidate.contact?.phones[0]
+                            ? formatPhone(candidate.contact.phones[0].number)
+                            : candidate.draft.phones?.[0]?.number ?? candidate.draft.email}
+                        </div>
+                        {candidate.error ? (
+                          <div className="text-xs text-red-400">{candidate.error}</div>
+                        ) : candidate.duplicateOf && (
+                          <div className="text-xs text-yellow-400">Looks like {candidate.duplicateOf}</div>
+                        )}
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <Button
+            onClick={handleImport}
+            disabled={selected.size === 0}
+            className="w-full bg-red-600 hover:bg-red-700"
+          >
+            Import {selected.size} {selected.size === 1 ? 'Contact' : 'Contacts'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ContactImportDialog;
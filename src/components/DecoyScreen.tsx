@@ -0,0 +1,126 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { DecoyScreen as DecoyKind } from "@/lib/settings";
+
+interface DecoyScreenProps {
+  kind: DecoyKind;
+  onReveal: () => void;
+}
+
+const REVEAL_HOLD_MS = 2000;
+
+const KEYS = ['C', '±', '%', '÷', '7', '8', '9', '×', '4', '5', '6', '−', '1', '2', '3', '+', '0', '.', '='];
+
+const OPERATORS: Record<string, (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '−': (a, b) => a - b,
+  '×': (a, b) => a * b,
+  '÷': (a, b) => a / b
+};
+
+const formatResult = (value: number) =>
+  Number.isFinite(value) ? String(Number(value.toPrecision(12))) : 'Error';
+
+/** A calculator that really works, so a glance at the phone gives nothing away */
+const Calculator: React.FC = () => {
+  const [display, setDisplay] = useState('0');
+  const [stored, setStored] = useState<number | null>(null);
+  const [operator, setOperator] = useState<string | null>(null);
+  const [fresh, setFresh] = useState(true);
+
+  const press = (key: string) => {
+    const current = Number(display);
+    if (/[0-9]/.test(key)) {
+      setDisplay(fresh || display === '0' ? key : display + key);
+      setFresh(false);
+    } else if (key === '.') {
+      setDisplay(fresh ? '0.' : display.includes('.') ? display : display + '.');
+      setFresh(false);
+    } else if (key === 'C') {
+      setDisplay('0');
+      setStored(null);
+      setOperator(null);
+      setFresh(true);
+    } else if (key === '±') {
+      setDisplay(formatResult(-current));
+    } else if (key === '%') {
+      setDisplay(formatResult(current / 100));
+    } else {
+      const result = operator && stored !== null && !fresh ? OPERATORS[operator](stored, current) : current;
+      setDisplay(formatResult(result));
+      setStored(key === '=' ? null : result);
+      setOperator(key === '=' ? null : key);
+      setFresh(true);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-xs mx-auto">
+      <div className="text-right text-5xl font-light text-white px-4 py-6 truncate">
+        {display}
+      </div>
+      <div className="grid grid-cols-4 gap-3">
+        {KEYS.map(key => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => press(key)}
+            className={`h-16 rounded-full text-2xl ${
+              key === '0' ? 'col-span-2' : ''
+            } ${
+              key in OPERATORS || key === '='
+                ? 'bg-orange-500 text-white'
+                : /[0-9.]/.test(key) ? 'bg-gray-800 text-white' : 'bg-gray-400 text-black'
+            }`}
+          >
+            {key}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Stands in for the emergency overlay in covert mode. Holding the top of
+ * the screen for a couple of seconds brings the real overlay back.
+ */
+const DecoyScreen: React.FC<DecoyScreenProps> = ({ kind, onReveal }) => {
+  const holdTimer = useRef<number>();
+
+  // Nothing in the tab or task switcher should mention an emergency
+  useEffect(() => {
+    const previousTitle = document.title;
+    document.title = kind === 'calculator' ? 'Calculator' : 'New Tab';
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [kind]);
+
+  useEffect(() => () => window.clearTimeout(holdTimer.current), []);
+
+  const startHold = () => {
+    window.clearTimeout(holdTimer.current);
+    holdTimer.current = window.setTimeout(onReveal, REVEAL_HOLD_MS);
+  };
+
+  const endHold = () => window.clearTimeout(holdTimer.current);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col select-none">
+      <div
+        className="h-24 flex-none"
+        onPointerDown={startHold}
+        onPointerUp={endHold}
+        onPointerLeave={endHold}
+        onPointerCancel={endHold}
+      />
+      {kind === 'calculator' && (
+        <div className="flex-1 flex items-end pb-8 px-4">
+          <Calculator />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DecoyScreen;
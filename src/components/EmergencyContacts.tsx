@@ -1,49 +1,65 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Plus, Phone, User, CircleX } from "lucide-react";
-
-interface EmergencyContact {
-  id: string;
-  name: string;
-  phone: string;
-  priority: number;
-}
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import {
+  Plus,
+  Phone,
+  User,
+  CircleX,
+  Mail,
+  Pencil,
+  Upload,
+  Download,
+  AlertTriangle,
+  GripVertical
+} from "lucide-react";
+import ContactDialog from "@/components/ContactDialog";
+import ContactImportDialog from "@/components/ContactImportDialog";
+import { TRANSPORT_LABELS } from "@/lib/alert-transports";
+import {
+  ContactFields,
+  EmergencyContact,
+  createEmptyContact,
+  getPriorityLabel,
+  primaryPhone,
+  sortByPriority
+} from "@/lib/contacts";
+import { downloadContacts } from "@/lib/contact-io";
+import { formatPhone, isDialable } from "@/lib/phone";
 
 interface EmergencyContactsProps {
   contacts: EmergencyContact[];
-  onAdd: (contact: Omit<EmergencyContact, 'id'>) => void;
+  onAdd: (contact: ContactFields) => void;
+  onImport: (contacts: ContactFields[]) => void;
   onRemove: (id: string) => void;
   onUpdate: (id: string, contact: Partial<EmergencyContact>) => void;
+  onReorder: (id: string, toIndex: number) => void;
 }
 
 const EmergencyContacts: React.FC<EmergencyContactsProps> = ({
   contacts,
   onAdd,
+  onImport,
   onRemove,
-  onUpdate
+  onUpdate,
+  onReorder
 }) => {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
-  const [newContact, setNewContact] = useState({ name: '', phone: '', priority: 1 });
-
-  const handleAddContact = () => {
-    if (newContact.name && newContact.phone) {
-      onAdd(newContact);
-      setNewContact({ name: '', phone: '', priority: 1 });
-      setIsAddDialogOpen(false);
-    }
-  };
-
-  const getPriorityLabel = (priority: number) => {
-    switch (priority) {
-      case 1: return "Primary";
-      case 2: return "Secondary";
-      case 3: return "Tertiary";
-      default: return `Priority ${priority}`;
-    }
-  };
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<EmergencyContact | null>(null);
+  const [emptyContact] = useState(createEmptyContact);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const handleRefs = useRef(new Map<string, HTMLButtonElement>());
+  const refocusId = useRef<string | null>(null);
 
   const getPriorityColor = (priority: number) => {
     switch (priority) {
@@ -54,65 +70,108 @@ const EmergencyContacts: React.FC<EmergencyContactsProps> = ({
     }
   };
 
-  const sortedContacts = contacts.sort((a, b) => a.priority - b.priority);
+  const sortedContacts = sortByPriority(contacts);
+
+  // Keyboard moves re-render the list; keep focus on the handle that moved
+  useEffect(() => {
+    if (refocusId.current) {
+      handleRefs.current.get(refocusId.current)?.focus();
+      refocusId.current = null;
+    }
+  }, [contacts]);
+
+  const move = (contact: EmergencyContact, toIndex: number) => {
+    const target = Math.max(0, Math.min(toIndex, sortedContacts.length - 1));
+    if (sortedContacts[target]?.id === contact.id) return;
+    onReorder(contact.id, target);
+    setAnnouncement(`${contact.name} moved to position ${target + 1} of ${sortedContacts.length}`);
+  };
+
+  const handleReorderKey = (e: React.KeyboardEvent, contact: EmergencyContact, index: number) => {
+    const targets: Record<string, number> = {
+      ArrowUp: index - 1,
+      ArrowDown: index + 1,
+      Home: 0,
+      End: sortedContacts.length - 1
+    };
+    if (!(e.key in targets)) return;
+    e.preventDefault();
+    refocusId.current = contact.id;
+    move(contact, targets[e.key]);
+  };
+
+  const endDrag = () => {
+    setDraggingId(null);
+    setDropIndex(null);
+  };
 
   return (
     <div className="bg-gray-800 rounded-lg p-4">
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-xl font-bold">Emergency Contacts</h2>
-        <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-          <DialogTrigger asChild>
-            <Button className="bg-red-600 hover:bg-red-700">
-              <Plus className="w-5 h-5 mr-2" />
-              Add Contact
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="bg-gray-900 text-white border-gray-700">
-            <DialogHeader>
-              <DialogTitle>Add Emergency Contact</DialogTitle>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium mb-2">Name</label>
-                <Input
-                  value={newContact.name}
-                  onChange={(e) => setNewContact(prev => ({ ...prev, name: e.target.value }))}
-                  placeholder="Contact name"
-                  className="bg-gray-800 border-gray-600"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium mb-2">Phone Number</label>
-                <Input
-                  value={newContact.phone}
-                  onChange={(e) => setNewContact(prev => ({ ...prev, phone: e.target.value }))}
-                  placeholder="+1234567890"
-                  type="tel"
-                  className="bg-gray-800 border-gray-600"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium mb-2">Priority</label>
-                <select
-                  value={newContact.priority}
-                  onChange={(e) => setNewContact(prev => ({ ...prev, priority: Number(e.target.value) }))}
-                  className="w-full p-2 rounded bg-gray-800 border border-gray-600"
-                >
-                  {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(num => (
-                    <option key={num} value={num}>
-                      {getPriorityLabel(num)}
-                    </option>
-                  ))}
-                </select>
-              </div>
-              <Button onClick={handleAddContact} className="w-full bg-red-600 hover:bg-red-700">
-                Add Contact
+        <div className="flex gap-1">
+          <Button
+            onClick={() => setIsImportDialogOpen(true)}
+            variant="ghost"
+            size="sm"
+            aria-label="Import contacts"
+            className="text-gray-300 hover:bg-gray-700"
+          >
+            <Upload className="w-4 h-4" />
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={contacts.length === 0}
+                aria-label="Export contacts"
+                className="text-gray-300 hover:bg-gray-700"
+              >
+                <Download className="w-4 h-4" />
               </Button>
-            </div>
-          </DialogContent>
-        </Dialog>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="bg-gray-900 text-white border-gray-700">
+              <DropdownMenuItem onSelect={() => downloadContacts(sortedContacts, 'vcard')}>
+                Export as vCard
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => downloadContacts(sortedContacts, 'csv')}>
+                Export as CSV
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button onClick={() => setIsAddDialogOpen(true)} className="bg-red-600 hover:bg-red-700">
+            <Plus className="w-5 h-5 mr-2" />
+            Add Contact
+          </Button>
+        </div>
       </div>
 
+      <ContactImportDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        contacts={contacts}
+        onImport={onImport}
+      />
+
+      <ContactDialog
+        open={isAddDialogOpen}
+        onOpenChange={setIsAddDialogOpen}
+        title="Add Emergency Contact"
+        submitLabel="Add Contact"
+        initial={emptyContact}
+        onSubmit={onAdd}
+      />
+
+      <ContactDialog
+        open={editing !== null}
+        onOpenChange={(open) => !open && setEditing(null)}
+        title="Edit Emergency Contact"
+        submitLabel="Save Contact"
+        initial={editing ?? emptyContact}
+        onSubmit={(fields) => editing && onUpdate(editing.id, fields)}
+      />
+
       {contacts.length === 0 ? (
         <div className="text-center py-8 text-gray-400">
           <User className="w-12 h-12 mx-auto mb-4 opacity-50" />
@@ -121,31 +180,111 @@ const EmergencyContacts: React.FC<EmergencyContactsProps> = ({
         </div>
       ) : (
         <div className="space-y-3">
-          {sortedContacts.map((contact) => (
-            <div key={contact.id} className="bg-gray-700 rounded-lg p-3 flex items-center justify-between">
-              <div className="flex-1">
-                <div className="flex items-center gap-2 mb-1">
-                  <User className="w-4 h-4" />
-                  <span className="font-semibold">{contact.name}</span>
-                  <span className={`text-xs px-2 py-1 rounded ${getPriorityColor(contact.priority)}`}>
-                    {getPriorityLabel(contact.priority)}
-                  </span>
-                </div>
-                <div className="flex items-center gap-2 text-sm text-gray-300">
-                  <Phone className="w-3 h-3" />
-                  <span>{contact.phone}</span>
+          <p id="contact-reorder-help" className="sr-only">
+            Drag to change who is alerted first, or focus the handle and use the arrow keys.
+          </p>
+          <p className="sr-only" aria-live="assertive">{announcement}</p>
+          {sortedContacts.map((contact, index) => {
+            const undialable = contact.phones.filter(phone => !isDialable(phone.number));
+            return (
+              <div
+                key={contact.id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  e.dataTransfer.setData('text/plain', contact.id);
+                  setDraggingId(contact.id);
+                }}
+                onDragOver={(e) => {
+                  if (!draggingId) return;
+                  e.preventDefault();
+                  setDropIndex(index);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  const dragged = sortedContacts.find(c => c.id === draggingId);
+                  if (dragged) move(dragged, index);
+                  endDrag();
+                }}
+                onDragEnd={endDrag}
+                className={`bg-gray-700 rounded-lg p-3 flex items-center justify-between gap-2 ${
+                  draggingId === contact.id ? 'opacity-50' : ''
+                } ${dropIndex === index && draggingId !== contact.id ? 'ring-2 ring-red-400' : ''}`}
+              >
+                <button
+                  ref={(element) => {
+                    if (element) {
+                      handleRefs.current.set(contact.id, element);
+                    } else {
+                      handleRefs.current.delete(contact.id);
+                    }
+                  }}
+                  type="button"
+                  onKeyDown={(e) => handleReorderKey(e, contact, index)}
+                  aria-label={`Reorder ${contact.name}, position ${index + 1} of ${sortedContacts.length}`}
+                  aria-describedby="contact-reorder-help"
+                  className="cursor-grab text-gray-400 hover:text-white focus:outline-none focus:ring-2 focus:ring-red-400 rounded"
+                >
+                  <GripVertical className="w-4 h-4" />
+                </button>
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-1">
+                    <User className="w-4 h-4" />
+                    <span className="font-semibold">{contact.name}</span>
+                    {contact.relationship && (
+                      <span className="text-xs text-gray-400">{contact.relationship}</span>
+                    )}
+                    <span className={`text-xs px-2 py-1 rounded ${getPriorityColor(contact.priority)}`}>
+                      {getPriorityLabel(contact.priority)}
+                    </span>
+                    {(undialable.length > 0 || contact.phones.length === 0) && (
+                      <Badge
+                        variant="outline"
+                        title={undialable.length > 0
+                          ? `Can't dial ${undialable.map(phone => phone.number).join(', ')}`
+                          : 'No phone number'}
+                        className="border-yellow-500 text-yellow-400 gap-1"
+                      >
+                        <AlertTriangle className="w-3 h-3" />
+                        Can't dial
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-gray-300">
+                    {contact.preferredChannel === 'email' ? (
+                      <Mail className="w-3 h-3" />
+                    ) : (
+                      <Phone className="w-3 h-3" />
+                    )}
+                    <span>{contact.preferredChannel === 'email' ? contact.email : formatPhone(primaryPhone(contact))}</span>
+                    <span className="text-xs text-gray-400">
+                      • {TRANSPORT_LABELS[contact.preferredChannel]}
+                    </span>
+                  </div>
+                  {contact.notes && (
+                    <p className="text-xs text-gray-400 mt-1 line-clamp-2">{contact.notes}</p>
+                  )}
                 </div>
+                <Button
+                  onClick={() => setEditing(contact)}
+                  variant="ghost"
+                  size="sm"
+                  aria-label={`Edit ${contact.name}`}
+                  className="text-gray-300 hover:bg-gray-600"
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  onClick={() => onRemove(contact.id)}
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+                >
+                  <CircleX className="w-4 h-4" />
+                </Button>
               </div>
-              <Button
-                onClick={() => onRemove(contact.id)}
-                variant="ghost"
-                size="sm"
-                className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
-              >
-                <CircleX className="w-4 h-4" />
-              </Button>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
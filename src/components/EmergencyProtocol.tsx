@@ -1,228 +1,272 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from "@/components/ui/button";
-import { Phone, MapPin, Mic, StopCircle } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Phone, MapPin, Mic, Video, StopCircle, Pause, Play, CheckCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-
-interface EmergencyContact {
-  id: string;
-  name: string;
-  phone: string;
-  priority: number;
-}
+import { useSettings } from "@/hooks/use-settings";
+import { useEmergencyEngine } from "@/hooks/use-emergency-engine";
+import { useAcknowledgements } from "@/hooks/use-acknowledgements";
+import { useIncidentRecord } from "@/hooks/use-incident-record";
+import { TriggerSource } from "@/lib/incidents";
+import { useEvidenceUploadProgress } from "@/hooks/use-evidence-upload";
+import { useEvidenceCapture } from "@/hooks/use-evidence-capture";
+import { useLocationTracking } from "@/hooks/use-location-tracking";
+import { LatLng, compassDirection, mapsLink } from "@/lib/geo";
+import { getAcknowledgedContactId, getRemainingSeconds, isCoerced } from "@/lib/emergency-engine";
+import { EmergencyContact, primaryPhone } from "@/lib/contacts";
+import EscalationPlan from "@/components/EscalationPlan";
+import DecoyScreen from "@/components/DecoyScreen";
+import CancelPinDialog from "@/components/CancelPinDialog";
+import { normalizePhone } from "@/lib/phone";
+import { EMERGENCY_SERVICE_LABELS, EmergencyService, resolveEmergencyNumbers } from "@/lib/emergency-numbers";
+import { buildAckInstructions } from "@/lib/acknowledgements";
+import {
+  AlertTransportId,
+  DeliveryResult,
+  SILENT_TRANSPORTS,
+  TRANSPORT_LABELS,
+  createAlertTransports,
+  isDelivered
+} from "@/lib/alert-transports";
 
 interface EmergencyProtocolProps {
   contacts: EmergencyContact[];
-  location: { lat: number; lng: number } | null;
+  location: LatLng | null;
+  triggerSource: TriggerSource;
+  /** Hide behind a decoy screen and stay silent while everything runs */
+  covert: boolean;
+  /** Keep running without showing anything, as after the duress PIN */
+  hidden: boolean;
   onCancel: () => void;
+  /** The duress PIN was entered: look cancelled but keep going */
+  onDuress: () => void;
 }
 
 const EmergencyProtocol: React.FC<EmergencyProtocolProps> = ({ 
   contacts, 
   location, 
-  onCancel 
+  triggerSource,
+  covert,
+  hidden,
+  onCancel,
+  onDuress
 }) => {
-  const [currentStep, setCurrentStep] = useState<'countdown' | 'active'>('countdown');
-  const [countdown, setCountdown] = useState(5);
-  const [currentContactIndex, setCurrentContactIndex] = useState(0);
-  const [waitTime, setWaitTime] = useState(15);
-  const [isRecording, setIsRecording] = useState(false);
-  const [recordingTime, setRecordingTime] = useState(0);
-  const [mediaRecorder, setMediaRecorder] = useState<MediaRecorder | null>(null);
+  const { settings } = useSettings();
   const { toast } = useToast();
-
-  // Countdown timer for cancellation
-  useEffect(() => {
-    if (currentStep === 'countdown' && countdown > 0) {
-      const timer = setTimeout(() => {
-        setCountdown(countdown - 1);
-      }, 1000);
-      return () => clearTimeout(timer);
-    } else if (currentStep === 'countdown' && countdown === 0) {
-      setCurrentStep('active');
-      // Start both recording and calling simultaneously
-      startRecording();
-      alertCurrentContact();
+  const [revealed, setRevealed] = useState(false);
+  // What the PIN prompt, when open, is asking permission for
+  const [pinAction, setPinAction] = useState<'cancel' | 'pause' | null>(null);
+  // A toast would give the game away, even after the overlay is brought back
+  // or the protocol was "cancelled" under duress
+  const notify = (props: Parameters<typeof toast>[0]) => {
+    if (!covert && !isCoerced(engine.getState())) {
+      toast(props);
     }
-  }, [currentStep, countdown]);
+  };
+  const [transports] = useState(() => createAlertTransports({ webhookUrl: settings.webhookUrl }));
+  const [incidentId] = useState(() => crypto.randomUUID());
+  // Worked out once from where the emergency started so the number shown is the one dialled
+  const [emergencyNumbers] = useState(() => resolveEmergencyNumbers(settings, location).numbers);
+  const [ackInput, setAckInput] = useState('');
+  const [ackError, setAckError] = useState(false);
 
-  // Wait time for contact response
-  useEffect(() => {
-    if (currentStep === 'active' && waitTime > 0) {
-      const timer = setTimeout(() => {
-        setWaitTime(waitTime - 1);
-      }, 1000);
-      return () => clearTimeout(timer);
-    } else if (currentStep === 'active' && waitTime === 0) {
-      escalateToNextContact();
+  const { engine, state } = useEmergencyEngine(
+    {
+      contacts,
+      cancelCountdown: settings.cancelCountdown,
+      responseTimeout: settings.responseTimeout,
+      strategy: settings.escalationStrategy,
+      tierSize: settings.tierSize,
+      emergencyNumber: emergencyNumbers.general
+    },
+    (effect, current) => {
+      switch (effect.type) {
+        case 'startRecording':
+          capture.start();
+          break;
+        case 'alertContact':
+          alertContact(effect.contact, effect.channel, isCoerced(current));
+          break;
+        case 'callEmergencyServices':
+          callEmergencyServices(effect.number);
+          break;
+      }
     }
-  }, [currentStep, waitTime]);
+  );
 
-  // Recording timer
-  useEffect(() => {
-    if (isRecording) {
-      const timer = setTimeout(() => {
-        setRecordingTime(recordingTime + 1);
-      }, 1000);
-      return () => clearTimeout(timer);
-    }
-  }, [isRecording, recordingTime]);
-
-  const startRecording = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      setIsRecording(true);
-      
-      // Start MediaRecorder
-      const recorder = new MediaRecorder(stream);
-      const chunks: BlobPart[] = [];
-      
-      recorder.ondataavailable = (e) => {
-        if (e.data.size > 0) {
-          chunks.push(e.data);
-        }
-      };
-      
-      recorder.onstop = () => {
-        const blob = new Blob(chunks, { type: 'audio/webm' });
-        
-        // Create download link for the audio file
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const filename = `emergency-recording-${timestamp}.webm`;
-        
-        // Create download link
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = filename;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-        
-        // Also save metadata to localStorage for reference
-        try {
-          const recordingMetadata = {
-            filename: filename,
-            timestamp: new Date().toISOString(),
-            duration: recordingTime,
-            type: 'audio/webm',
-            saved: 'downloads'
-          };
-          
-          localStorage.setItem('emergencyRecordingMetadata', JSON.stringify(recordingMetadata));
-          console.log('Recording downloaded successfully:', {
-            filename: filename,
-            duration: recordingTime,
-            location: 'downloads'
-          });
-          
-          toast({
-            title: "Recording Downloaded",
-            description: `Emergency audio saved as ${filename}`,
-            variant: "default"
-          });
-          
-        } catch (error) {
-          console.error('Error saving recording metadata:', error);
-          toast({
-            title: "Recording Saved",
-            description: "Audio downloaded but metadata save failed",
-            variant: "default"
-          });
-        }
-        
-        // Clean up stream
-        stream.getTracks().forEach(track => track.stop());
-      };
-      
-      recorder.start();
-      setMediaRecorder(recorder);
-      
-      // Stop recording after 30 seconds
-      setTimeout(() => {
-        if (recorder.state === 'recording') {
-          recorder.stop();
-          setIsRecording(false);
-        }
-      }, 30000);
-      
-    } catch (error) {
-      console.error('Error starting recording:', error);
-      toast({
+  const { recordLocation, attachRecording, attachPhoto, close } = useIncidentRecord(engine, { id: incidentId, triggerSource });
+
+  const capture = useEvidenceCapture({
+    incidentId,
+    settings,
+    onRecordingSaved: (recording) => {
+      attachRecording(recording);
+      notify({
+        title: "Recording Saved",
+        description: "Emergency recording is available under Recordings",
+        variant: "default"
+      });
+    },
+    onPhotoSaved: attachPhoto,
+    onError: (message) => {
+      notify({
         title: "Recording Error",
-        description: "Could not start audio recording. Please check microphone permissions.",
+        description: message,
         variant: "destructive"
       });
     }
+  });
+
+  // Follow the person for as long as the overlay is up; until the first
+  // fix arrives, fall back to the one taken when the emergency started
+  const { fix, error: locationError } = useLocationTracking(true);
+  const currentLocation = fix ?? location;
+
+  // Leave a breadcrumb trail on the incident
+  useEffect(() => {
+    if (currentLocation) {
+      recordLocation(currentLocation);
+    }
+  }, [currentLocation, recordLocation]);
+
+  // Stamp the end time however the overlay goes away
+  useEffect(() => close, [close]);
+
+  const uploadProgress = useEvidenceUploadProgress(capture.uploadId);
+
+  const { issueCode, verifyCode } = useAcknowledgements({
+    relayUrl: settings.relayUrl,
+    incidentId,
+    enabled: state.phase === 'alerting',
+    onAcknowledged: (contactId) => engine.acknowledge(contactId)
+  });
+
+  const handleCancel = () => {
+    engine.cancel();
+    onCancel();
   };
 
-  const alertCurrentContact = () => {
-    const sortedContacts = contacts.sort((a, b) => a.priority - b.priority);
-    const currentContact = sortedContacts[currentContactIndex];
-    
-    if (!currentContact) {
-      // No contacts available, call emergency services
-      callEmergencyServices();
-      return;
+  // Without a PIN set up anyone holding the phone can stop the protocol
+  const requestCancel = () => {
+    if (settings.cancelPin) {
+      setPinAction('cancel');
+    } else {
+      handleCancel();
     }
+  };
 
-    console.log(`Alerting ${currentContact.name} at ${currentContact.phone}`);
+  const handlePin = (pin: string) => {
+    if (pin === settings.cancelPin) {
+      setPinAction(null);
+      if (pinAction === 'pause') {
+        engine.pause();
+      } else {
+        handleCancel();
+      }
+      return true;
+    }
+    // The duress PIN works from either prompt
+    if (settings.duressPin && pin === settings.duressPin) {
+      setPinAction(null);
+      engine.duress();
+      onDuress();
+      return true;
+    }
+    return false;
+  };
+
+  // Calls, texts, email and the share sheet all bring another app to the
+  // front, so covert alerts and anything sent after the duress PIN only go
+  // through the webhook
+  const pickTransport = (channel: AlertTransportId, silent: boolean) => {
+    if (!silent || SILENT_TRANSPORTS.includes(channel)) return transports[channel];
+    return transports.webhook.isSupported() ? transports.webhook : null;
+  };
+
+  const alertContact = async (contact: EmergencyContact, channel: AlertTransportId, coerced: boolean) => {
+    const transport = pickTransport(channel, covert || hidden || coerced);
+    if (!transport) {
+      // Reported so escalation moves on rather than waiting on an alert never sent
+      engine.reportDelivery({
+        transport: channel,
+        contactId: contact.id,
+        status: 'unsupported',
+        detail: 'No silent way to send this alert',
+        at: Date.now()
+      });
+      return;
+    }
+    // Numbers saved before validation existed may still be in local format
+    const phone = normalizePhone(primaryPhone(contact)) ?? primaryPhone(contact);
+    const address = transport.id === 'email' ? contact.email : phone;
     
     // Create emergency message
-    const locationText = location 
-      ? `https://maps.google.com/?q=${location.lat},${location.lng}`
+    const locationText = currentLocation
+      ? describeLocation(currentLocation)
       : 'Location unavailable';
     
-    const message = `EMERGENCY ALERT: This person needs immediate help! Location: ${locationText}`;
+    const ackCode = issueCode(contact);
+    const message = coerced
+      ? `EMERGENCY ALERT: This person was forced to cancel their emergency alert and still needs help. They may not be able to talk safely. Location: ${locationText}. ${buildAckInstructions(settings.relayUrl, ackCode)}`
+      : `EMERGENCY ALERT: This person needs immediate help! Location: ${locationText}. ${buildAckInstructions(settings.relayUrl, ackCode)}`;
     
-    toast({
-      title: `Alerting ${currentContact.name}`,
-      description: `Calling ${currentContact.phone}...`,
+    notify({
+      title: `Alerting ${contact.name}`,
+      description: `${transport.label} to ${address}...`,
       variant: "destructive"
     });
 
-    // In a real app, this would make an actual call/SMS
-    // For demo purposes, we'll simulate the call
-    simulateCall(currentContact.phone, message);
-    
-    setWaitTime(15); // Reset wait time
-  };
-
-  const simulateCall = (phoneNumber: string, message: string) => {
-    // In a real implementation, this would use:
-    // - Twilio API for calls/SMS
-    // - Native phone call functionality
-    // - Push notifications
-    
-    console.log(`Simulating call to ${phoneNumber}: ${message}`);
-    
-    // For web demo, open phone dialer (works on mobile)
-    const telLink = `tel:${phoneNumber}`;
-    window.open(telLink, '_self');
-  };
-
-  const escalateToNextContact = () => {
-    const sortedContacts = contacts.sort((a, b) => a.priority - b.priority);
-    
-    if (currentContactIndex < sortedContacts.length - 1) {
-      setCurrentContactIndex(currentContactIndex + 1);
-      setWaitTime(15);
-      alertCurrentContact();
-    } else {
-      // All contacts exhausted, call emergency services
-      callEmergencyServices();
+    const delivery = await transport.send({
+      contact: { id: contact.id, name: contact.name, phone, email: contact.email },
+      text: message,
+      location: currentLocation,
+      coerced
+    });
+    if (!isDelivered(delivery)) {
+      console.error(`Alert to ${contact.name} failed:`, delivery.detail);
     }
+    engine.reportDelivery(delivery);
   };
 
-  const callEmergencyServices = () => {
-    toast({
+  const callEmergencyServices = (number: string) => {
+    // The dialer would come up over the decoy screen, or in front of
+    // whoever forced the duress cancel
+    if ((covert && !revealed) || hidden || isCoerced(engine.getState())) {
+      engine.reportCallSkipped();
+      return;
+    }
+    notify({
       title: "CALLING EMERGENCY SERVICES",
-      description: "Dialing 112...",
+      description: `Dialing ${number}...`,
       variant: "destructive"
     });
     
     // Call emergency services
-    window.open('tel:112', '_self');
+    window.open(`tel:${number}`, '_self');
+  };
+
+  const callService = (service: EmergencyService) => {
+    notify({
+      title: `CALLING ${EMERGENCY_SERVICE_LABELS[service].toUpperCase()}`,
+      description: `Dialing ${emergencyNumbers[service]}...`,
+      variant: "destructive"
+    });
+    window.open(`tel:${emergencyNumbers[service]}`, '_self');
+  };
+
+  const describeLocation = (current: LatLng) => {
+    const details = [];
+    if (fix?.accuracy != null) details.push(`±${Math.round(fix.accuracy)}m`);
+    if (fix) details.push(`as of ${new Date(fix.at).toLocaleTimeString()}`);
+    return details.length > 0 ? `${mapsLink(current)} (${details.join(', ')})` : mapsLink(current);
+  };
+
+  const handleVerifyAck = () => {
+    const verified = verifyCode(ackInput);
+    setAckError(!verified);
+    if (verified) {
+      setAckInput('');
+    }
   };
 
   const formatTime = (seconds: number) => {
@@ -231,8 +275,33 @@ const EmergencyProtocol: React.FC<EmergencyProtocolProps> = ({
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const sortedContacts = contacts.sort((a, b) => a.priority - b.priority);
-  const currentContact = sortedContacts[currentContactIndex];
+  const sortedContacts = engine.contacts;
+  const steps = engine.plan;
+  const nextStep = steps[state.stepIndex + 1];
+  const currentStep = state.phase === 'idle' || state.phase === 'countdown' ? 'countdown' : 'active';
+  const isPaused = state.pausedRemaining !== null;
+  const acknowledgedContactId = getAcknowledgedContactId(state);
+  const acknowledgedContact = sortedContacts.find(c => c.id === acknowledgedContactId);
+  const deliveries = state.log
+    .filter(entry => entry.type === 'alert-delivery')
+    .map(entry => entry.delivery);
+
+  const deliveryColor = (delivery: DeliveryResult) => {
+    switch (delivery.status) {
+      case 'sent': return "text-green-400";
+      case 'opened':
+      case 'queued': return "text-yellow-400";
+      default: return "text-red-400";
+    }
+  };
+
+  if (hidden) {
+    return null;
+  }
+
+  if (covert && !revealed) {
+    return <DecoyScreen kind={settings.decoyScreen} onReveal={() => setRevealed(true)} />;
+  }
 
   return (
     <div className="fixed inset-0 bg-red-900/95 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -241,7 +310,7 @@ const EmergencyProtocol: React.FC<EmergencyProtocolProps> = ({
         {currentStep === 'countdown' && (
           <div className="space-y-6">
             <div className="text-6xl font-bold text-red-400 animate-pulse">
-              {countdown}
+              {getRemainingSeconds(state)}
             </div>
             <h2 className="text-2xl font-bold text-white">
               Emergency Activating
@@ -250,7 +319,7 @@ const EmergencyProtocol: React.FC<EmergencyProtocolProps> = ({
               Press CANCEL to stop the emergency alert
             </p>
             <Button 
-              onClick={onCancel}
+              onClick={requestCancel}
               className="w-full bg-gray-600 hover:bg-gray-700 text-white text-xl py-4"
             >
               CANCEL
@@ -264,71 +333,140 @@ const EmergencyProtocol: React.FC<EmergencyProtocolProps> = ({
               {/* Recording Status */}
               <div className="bg-gray-800 rounded-lg p-4">
                 <div className="text-red-400">
-                  <Mic className="w-8 h-8 mx-auto animate-pulse" />
+                  {capture.kind === 'video' ? (
+                    <Video className="w-8 h-8 mx-auto animate-pulse" />
+                  ) : (
+                    <Mic className="w-8 h-8 mx-auto animate-pulse" />
+                  )}
                 </div>
                 <div className="text-sm font-bold text-white mt-2">
-                  {isRecording ? 'Recording' : 'Downloaded'}
+                  {capture.isRecording ? 'Recording' : capture.isSaved ? 'Saved' : 'Stopped'}
                 </div>
                 <div className="text-lg font-mono text-red-400">
-                  {formatTime(recordingTime)}
+                  {formatTime(capture.elapsed)}
                 </div>
-                {!isRecording && recordingTime > 0 && (
+                {capture.photoCount > 0 && (
+                  <div className="text-xs text-gray-300 mt-1">
+                    {capture.photoCount} photo{capture.photoCount === 1 ? '' : 's'} taken
+                  </div>
+                )}
+                {capture.isSaved && (
                   <div className="text-xs text-green-400 mt-1">
-                    ✓ Saved to downloads
+                    ✓ Saved on this device
+                  </div>
+                )}
+                {uploadProgress && (
+                  <div className={`text-xs mt-1 ${
+                    uploadProgress.rejected ? 'text-red-400' : uploadProgress.lastError ? 'text-yellow-400' : 'text-green-400'
+                  }`}>
+                    {uploadProgress.complete
+                      ? '✓ Uploaded'
+                      : `↑ ${uploadProgress.uploaded}/${uploadProgress.uploaded + uploadProgress.pending} uploaded`}
+                    {uploadProgress.rejected
+                      ? ' • some rejected by server'
+                      : uploadProgress.lastError && !uploadProgress.complete && ' • retrying'}
                   </div>
                 )}
               </div>
 
               {/* Calling Status */}
-              <div className="bg-gray-800 rounded-lg p-4">
-                <div className="text-yellow-400">
-                  <Phone className="w-8 h-8 mx-auto animate-bounce" />
-                </div>
-                <div className="text-sm font-bold text-white mt-2">
-                  Calling
+              {acknowledgedContact ? (
+                <div className="bg-gray-800 rounded-lg p-4">
+                  <div className="text-green-400">
+                    <CheckCircle className="w-8 h-8 mx-auto" />
+                  </div>
+                  <div className="text-sm font-bold text-white mt-2">
+                    Responding
+                  </div>
+                  <div className="text-lg text-green-400 truncate">
+                    {acknowledgedContact.name}
+                  </div>
                 </div>
-                <div className="text-lg font-mono text-yellow-400">
-                  {waitTime}s
+              ) : (
+                <div className="bg-gray-800 rounded-lg p-4">
+                  <div className="text-yellow-400">
+                    <Phone className="w-8 h-8 mx-auto animate-bounce" />
+                  </div>
+                  <div className="text-sm font-bold text-white mt-2">
+                    {isPaused ? 'On hold' : 'Calling'}
+                  </div>
+                  <div className="text-lg font-mono text-yellow-400">
+                    {getRemainingSeconds(state)}s
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
 
             <h2 className="text-xl font-bold text-white">
               Emergency Protocol Active
             </h2>
+
+            {acknowledgedContact && (
+              <div className="bg-green-900/40 border border-green-600 rounded-lg p-4">
+                <div className="font-bold text-green-400">
+                  {acknowledgedContact.name} is on their way
+                </div>
+                <div className="text-sm text-gray-300">
+                  Escalation stopped. Recording and location sharing continue.
+                </div>
+              </div>
+            )}
             
-            {currentContact ? (
-              <div className="space-y-4">
-                <div className="bg-gray-800 rounded-lg p-4">
-                  <div className="font-bold text-lg text-yellow-400">
-                    {currentContact.name}
-                  </div>
-                  <div className="text-gray-300">
-                    {currentContact.phone}
-                  </div>
-                  <div className="text-sm text-gray-400">
-                    Priority {currentContact.priority}
+            {currentLocation && (
+              <div className="bg-gray-800 rounded-lg p-3">
+                <div className="flex items-center justify-between text-green-400">
+                  <div className="flex items-center gap-2">
+                    <MapPin className="w-4 h-4" />
+                    <span className="text-sm">{fix ? 'Live location shared' : 'Location shared'}</span>
                   </div>
+                  {locationError && (
+                    <span className="text-xs text-yellow-400">Signal lost</span>
+                  )}
                 </div>
-                
-                {location && (
-                  <div className="bg-gray-800 rounded-lg p-3">
-                    <div className="flex items-center gap-2 text-green-400">
-                      <MapPin className="w-4 h-4" />
-                      <span className="text-sm">Location shared</span>
-                    </div>
-                    <div className="text-xs text-gray-400 mt-1">
-                      {location.lat.toFixed(6)}, {location.lng.toFixed(6)}
+                <div className="text-xs text-gray-400 mt-1">
+                  {currentLocation.lat.toFixed(6)}, {currentLocation.lng.toFixed(6)}
+                </div>
+                {fix && (
+                  <div className="grid grid-cols-3 gap-2 text-xs text-gray-300 mt-2">
+                    <div>±{fix.accuracy !== null ? Math.round(fix.accuracy) : '?'} m</div>
+                    <div>{fix.speed !== null ? `${(fix.speed * 3.6).toFixed(1)} km/h` : '— km/h'}</div>
+                    <div>
+                      {fix.heading !== null
+                        ? `${Math.round(fix.heading)}° ${compassDirection(fix.heading)}`
+                        : '—'}
                     </div>
                   </div>
                 )}
-                
-                <p className="text-sm text-gray-300">
-                  Contact #{currentContactIndex + 1} of {sortedContacts.length}
-                  {currentContactIndex < sortedContacts.length - 1 && 
-                    ` • Next: ${sortedContacts[currentContactIndex + 1]?.name}`
-                  }
-                </p>
+              </div>
+            )}
+
+            {acknowledgedContact ? null : steps.length > 0 ? (
+              <div className="space-y-4">
+                <EscalationPlan steps={steps} state={state} emergencyNumber={emergencyNumbers.general} />
+
+                {state.phase === 'alerting' && (
+                  <p className="text-sm text-gray-300">
+                    Step {state.stepIndex + 1} of {steps.length}
+                    {nextStep
+                      ? ` • Next: ${nextStep.map(alert => alert.contact.name).join(', ')}`
+                      : ' • Next: emergency services'}
+                  </p>
+                )}
+
+                {deliveries.length > 0 && (
+                  <div className="bg-gray-800 rounded-lg p-3 text-left space-y-1">
+                    {deliveries.map((delivery, index) => (
+                      <div key={index} className="flex justify-between text-xs">
+                        <span className="text-gray-300">
+                          {sortedContacts.find(c => c.id === delivery.contactId)?.name} • {TRANSPORT_LABELS[delivery.transport]}
+                        </span>
+                        <span className={deliveryColor(delivery)} title={delivery.detail}>
+                          {delivery.status}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             ) : (
               <div className="space-y-4">
@@ -341,8 +479,60 @@ const EmergencyProtocol: React.FC<EmergencyProtocolProps> = ({
               </div>
             )}
             
+            {state.phase === 'alerting' && (
+              <div className="space-y-1">
+                <div className="flex gap-2">
+                  <Input
+                    value={ackInput}
+                    onChange={(e) => {
+                      setAckInput(e.target.value);
+                      setAckError(false);
+                    }}
+                    placeholder="Acknowledgement code"
+                    className="bg-gray-800 border-gray-600 font-mono uppercase"
+                  />
+                  <Button onClick={handleVerifyAck} disabled={!ackInput.trim()} className="bg-green-700 hover:bg-green-800">
+                    Confirm
+                  </Button>
+                </div>
+                {ackError && (
+                  <p className="text-xs text-red-400 text-left">That code was not sent to any contact</p>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-2">
+              {(['police', 'ambulance', 'fire'] as const).map(service => (
+                <Button
+                  key={service}
+                  onClick={() => callService(service)}
+                  variant="outline"
+                  className="flex-col h-auto py-2 border-red-600 text-red-400 hover:bg-gray-700"
+                >
+                  <span className="text-sm">{EMERGENCY_SERVICE_LABELS[service]}</span>
+                  <span className="text-xs font-mono">{emergencyNumbers[service]}</span>
+                </Button>
+              ))}
+            </div>
+
+            {/* Holding escalation open-endedly is as good as cancelling, so it
+                takes the same PIN; without one there's no holding at all */}
+            {state.phase === 'alerting' && (isPaused || !!settings.cancelPin) && (
+              <Button
+                onClick={() => isPaused ? engine.resume() : setPinAction('pause')}
+                variant="outline"
+                className="w-full border-yellow-600 text-yellow-400 hover:bg-gray-700"
+              >
+                {isPaused ? (
+                  <><Play className="w-4 h-4 mr-2" />Resume Escalation</>
+                ) : (
+                  <><Pause className="w-4 h-4 mr-2" />Hold Escalation</>
+                )}
+              </Button>
+            )}
+
             <Button 
-              onClick={onCancel}
+              onClick={requestCancel}
               variant="outline"
               className="w-full border-gray-600 text-gray-300 hover:bg-gray-700"
             >
@@ -352,6 +542,15 @@ const EmergencyProtocol: React.FC<EmergencyProtocolProps> = ({
           </div>
         )}
       </div>
+
+      <CancelPinDialog
+        open={pinAction !== null}
+        onOpenChange={(open) => !open && setPinAction(null)}
+        description={pinAction === 'pause'
+          ? 'Enter your PIN to put escalation on hold'
+          : 'Enter your PIN to stop the emergency protocol'}
+        onSubmit={handlePin}
+      />
     </div>
   );
 };
@@ -1,48 +1,254 @@
-
 import React, { useState, useEffect } from 'react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Slider } from "@/components/ui/slider";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { HelpCircle } from "lucide-react";
+import { Copy, HelpCircle, Link2, Lock, Mic } from "lucide-react";
+import { useSettings } from "@/hooks/use-settings";
+import { useToast } from "@/hooks/use-toast";
+import { useKeywordModels } from "@/hooks/use-keyword-models";
+import PhraseRecordingDialog from "@/components/PhraseRecordingDialog";
+import CancelPinDialog from "@/components/CancelPinDialog";
+import { keywordModelId } from "@/lib/keyword-models";
+import { requestMicrophoneAccess } from "@/lib/audio-capture";
+import { SoundSensitivity } from "@/lib/distress-sound";
+import { VoiceEnginePreference, getVoiceCapabilities } from "@/lib/voice-engines";
+import { DecoyScreen, EvidenceMode, PhraseRule, Settings, TriggerPhrase, createTriggerPhrase } from "@/lib/settings";
+import { EscalationStrategy } from "@/lib/emergency-engine";
+import {
+  EMERGENCY_NUMBER_COUNTRIES,
+  EMERGENCY_SERVICE_LABELS,
+  EmergencyService,
+  resolveEmergencyNumbers
+} from "@/lib/emergency-numbers";
+import { TRIGGER_SCHEME, TriggerMode, buildTriggerUrl, registerTriggerScheme } from "@/lib/trigger-link";
+import { PHRASE_RULE_LABELS } from "@/lib/trigger-rules";
+import { PHRASE_PACKS, PackLanguage, sameLanguage } from "@/lib/phrase-packs";
+import { ButtonGesture, ShakeSensitivity, TRIGGER_KEYS, TriggerKey, requestMotionPermission } from "@/lib/triggers";
+
+const STRATEGY_DESCRIPTIONS: Record<EscalationStrategy, string> = {
+  sequential: 'Alert one contact at a time, in order, before calling emergency services',
+  broadcast: 'Alert every contact at once, then call your primary contact',
+  tiered: 'Alert contacts in groups, moving to the next group if nobody responds'
+};
+
+const SERVICE_NUMBER_KEYS: Record<EmergencyService, 'emergencyNumber' | 'policeNumber' | 'ambulanceNumber' | 'fireNumber'> = {
+  general: 'emergencyNumber',
+  police: 'policeNumber',
+  ambulance: 'ambulanceNumber',
+  fire: 'fireNumber'
+};
 
-interface EmergencySettingsProps {
-  onSettingsChange?: (settings: any) => void;
-}
+const regionNames = typeof Intl.DisplayNames === 'function'
+  ? new Intl.DisplayNames(undefined, { type: 'region' })
+  : null;
 
-interface Settings {
-  responseTimeout: number;
-  recordingDuration: number;
-  cancelCountdown: number;
-  triggerPhrases: string[];
-}
+const emergencyRegions = EMERGENCY_NUMBER_COUNTRIES
+  .map(code => ({ code, name: regionNames?.of(code) ?? code }))
+  .sort((a, b) => a.name.localeCompare(b.name));
 
-const EmergencySettings: React.FC<EmergencySettingsProps> = ({ onSettingsChange }) => {
+const EmergencySettings: React.FC = () => {
+  const { settings: savedSettings, updateSettings } = useSettings();
+  const { toast } = useToast();
   const [isOpen, setIsOpen] = useState(false);
-  const [settings, setSettings] = useState<Settings>({
-    responseTimeout: 15,
-    recordingDuration: 30,
-    cancelCountdown: 5,
-    triggerPhrases: ['help me', 'emergency', 'call help', 'i need help']
-  });
-
-  // Load settings from localStorage
-  useEffect(() => {
-    const savedSettings = localStorage.getItem('emergencySettings');
-    if (savedSettings) {
-      setSettings(JSON.parse(savedSettings));
-    }
-  }, []);
+  const [settings, setSettings] = useState<Settings>(savedSettings);
+  const [errors, setErrors] = useState<Partial<Record<keyof Settings, string>>>({});
+  const [recordingPhrase, setRecordingPhrase] = useState<TriggerPhrase | null>(null);
+  // Whoever has the phone mustn't be able to read the PINs, or learn there's
+  // a duress PIN at all, without knowing the cancel PIN
+  const [pinsUnlocked, setPinsUnlocked] = useState(false);
+  const [pinPromptOpen, setPinPromptOpen] = useState(false);
+  const keywordModels = useKeywordModels();
+  const voiceCapabilities = getVoiceCapabilities();
 
-  // Save settings to localStorage
+  // Start every edit session from what is actually in effect
   useEffect(() => {
-    localStorage.setItem('emergencySettings', JSON.stringify(settings));
-    onSettingsChange?.(settings);
-  }, [settings, onSettingsChange]);
+    if (isOpen) {
+      setSettings(savedSettings);
+      setErrors({});
+      setPinsUnlocked(!savedSettings.cancelPin);
+    }
+  }, [isOpen, savedSettings]);
 
-  const updateSetting = (key: keyof Settings, value: any) => {
+  const updateSetting = <K extends keyof Settings>(key: K, value: Settings[K]) => {
     setSettings(prev => ({ ...prev, [key]: value }));
   };
 
+  const handleSave = () => {
+    const result = updateSettings({
+      ...settings,
+      triggerPhrases: settings.triggerPhrases.filter(({ phrase }) => phrase.trim() !== '')
+    });
+
+    if (!result.success) {
+      const fieldErrors: Partial<Record<keyof Settings, string>> = {};
+      result.error.issues.forEach(issue => {
+        const key = issue.path[0] as keyof Settings;
+        fieldErrors[key] ??= issue.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setIsOpen(false);
+  };
+
+  // What would be dialled with the overrides left blank
+  const regional = resolveEmergencyNumbers(
+    { ...settings, emergencyNumber: '', policeNumber: '', ambulanceNumber: '', fireNumber: '' },
+    null
+  );
+
+  // iOS needs the motion permission asked for from this tap
+  const handleShakeToggle = async (checked: boolean) => {
+    if (checked && !(await requestMotionPermission())) {
+      setErrors(prev => ({ ...prev, shakeTriggerEnabled: 'Motion access was not allowed' }));
+      return;
+    }
+    updateSetting('shakeTriggerEnabled', checked);
+  };
+
+  const handleSoundToggle = async (checked: boolean) => {
+    if (checked && !(await requestMicrophoneAccess())) {
+      setErrors(prev => ({ ...prev, soundTriggerEnabled: 'Microphone access was not allowed' }));
+      return;
+    }
+    updateSetting('soundTriggerEnabled', checked);
+  };
+
+  const copyTriggerLink = async (mode: TriggerMode) => {
+    try {
+      await navigator.clipboard.writeText(buildTriggerUrl({ mode }));
+      toast({ title: "Link Copied", description: "Save it to an NFC tag, widget or shortcut" });
+    } catch (error) {
+      console.error('Error copying link:', error);
+    }
+  };
+
+  const handleRegisterScheme = () => {
+    if (!registerTriggerScheme()) {
+      toast({
+        title: "Not Supported",
+        description: `This browser can't open ${TRIGGER_SCHEME}: links`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updatePhrase = (index: number, changes: Partial<TriggerPhrase>) => {
+    updateSetting(
+      'triggerPhrases',
+      settings.triggerPhrases.map((phrase, i) => (i === index ? { ...phrase, ...changes } : phrase))
+    );
+  };
+
+  // Turning a language on brings its starter phrases along, unless some are already there
+  const toggleVoiceLanguage = (lang: PackLanguage, checked: boolean) => {
+    setSettings(prev => {
+      if (!checked) {
+        return { ...prev, voiceLanguages: prev.voiceLanguages.filter(current => current !== lang) };
+      }
+      const hasPhrases = prev.triggerPhrases.some(phrase => sameLanguage(phrase.lang, lang));
+      return {
+        ...prev,
+        voiceLanguages: [...prev.voiceLanguages, lang],
+        triggerPhrases: hasPhrases
+          ? prev.triggerPhrases
+          : [...prev.triggerPhrases, ...PHRASE_PACKS[lang].phrases.map(phrase => createTriggerPhrase(phrase, lang))]
+      };
+    });
+  };
+
+  const findKeywordModel = (phrase: TriggerPhrase) =>
+    keywordModels.find(model => model.id === keywordModelId(phrase.phrase, phrase.lang));
+
+  const renderPhraseRule = (phrase: TriggerPhrase, index: number) => (
+    <div className="flex flex-wrap items-center gap-2 pl-1">
+      <select
+        value={phrase.lang}
+        onChange={(e) => updatePhrase(index, { lang: e.target.value })}
+        className="p-1 text-xs rounded bg-gray-800 border border-gray-600"
+        aria-label={`Language of "${phrase.phrase}"`}
+      >
+        {(Object.keys(PHRASE_PACKS) as PackLanguage[]).map(lang => (
+          <option key={lang} value={lang}>{PHRASE_PACKS[lang].label}</option>
+        ))}
+      </select>
+      <select
+        value={phrase.rule}
+        onChange={(e) => updatePhrase(index, { rule: e.target.value as PhraseRule })}
+        className="p-1 text-xs rounded bg-gray-800 border border-gray-600"
+        aria-label={`Rule for "${phrase.phrase}"`}
+      >
+        {(Object.keys(PHRASE_RULE_LABELS) as PhraseRule[]).map(rule => (
+          <option key={rule} value={rule}>{PHRASE_RULE_LABELS[rule]}</option>
+        ))}
+      </select>
+      {phrase.rule === 'repeat' && (
+        <span className="flex items-center gap-1 text-xs text-gray-300">
+          <Input
+            type="number"
+            value={phrase.repeatCount}
+            onChange={(e) => updatePhrase(index, { repeatCount: Number(e.target.value) })}
+            className="bg-gray-800 border-gray-600 h-7 w-14 text-xs"
+            aria-label="Times to say it"
+            min="2"
+            max="5"
+          />
+          times within
+          <Input
+            type="number"
+            value={phrase.repeatWindow}
+            onChange={(e) => updatePhrase(index, { repeatWindow: Number(e.target.value) })}
+            className="bg-gray-800 border-gray-600 h-7 w-16 text-xs"
+            aria-label="Seconds to say it in"
+            min="5"
+            max="60"
+          />
+          s
+        </span>
+      )}
+      {phrase.rule === 'code-word' && (
+        <Input
+          value={phrase.codeWord}
+          onChange={(e) => updatePhrase(index, { codeWord: e.target.value })}
+          placeholder="Code word"
+          className="bg-gray-800 border-gray-600 h-7 w-32 text-xs"
+          aria-label="Code word"
+        />
+      )}
+    </div>
+  );
+
+  const renderPinInput = (key: 'cancelPin' | 'duressPin', label: string) => (
+    <div>
+      <span className="block text-xs text-gray-300 mb-1">{label}</span>
+      <Input
+        type="password"
+        value={settings[key]}
+        onChange={(e) => updateSetting(key, e.target.value.replace(/\D/g, ''))}
+        className="bg-gray-800 border-gray-600 font-mono tracking-widest"
+        aria-label={label}
+        inputMode="numeric"
+        autoComplete="off"
+        maxLength={4}
+      />
+    </div>
+  );
+
+  const handleUnlockPins = (pin: string) => {
+    if (pin !== savedSettings.cancelPin) return false;
+    setPinsUnlocked(true);
+    setPinPromptOpen(false);
+    return true;
+  };
+
+  const renderError = (key: keyof Settings) => errors[key] && (
+    <p className="text-xs text-red-400 mt-1">{errors[key]}</p>
+  );
+
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
       <DialogTrigger asChild>
@@ -69,8 +275,270 @@ const EmergencySettings: React.FC<EmergencySettingsProps> = ({ onSettingsChange
               max="60"
             />
             <p className="text-xs text-gray-400 mt-1">
-              How long to wait for a contact to respond before trying the next one
+              How long to wait for a response before escalating further
+            </p>
+            {renderError('responseTimeout')}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Escalation
+            </label>
+            <div className={settings.escalationStrategy === 'tiered' ? 'grid grid-cols-2 gap-2' : undefined}>
+              <select
+                value={settings.escalationStrategy}
+                onChange={(e) => updateSetting('escalationStrategy', e.target.value as EscalationStrategy)}
+                className="w-full p-2 rounded bg-gray-800 border border-gray-600"
+              >
+                <option value="sequential">One at a time</option>
+                <option value="broadcast">Everyone at once</option>
+                <option value="tiered">In groups</option>
+              </select>
+              {settings.escalationStrategy === 'tiered' && (
+                <Input
+                  type="number"
+                  value={settings.tierSize}
+                  onChange={(e) => updateSetting('tierSize', Number(e.target.value))}
+                  className="bg-gray-800 border-gray-600"
+                  aria-label="Contacts per group"
+                  min="1"
+                  max="10"
+                />
+              )}
+            </div>
+            <p className="text-xs text-gray-400 mt-1">
+              {STRATEGY_DESCRIPTIONS[settings.escalationStrategy]}
+            </p>
+            {renderError('escalationStrategy')}
+            {renderError('tierSize')}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Emergency Numbers
+            </label>
+            <select
+              value={settings.emergencyRegion}
+              onChange={(e) => updateSetting('emergencyRegion', e.target.value)}
+              className="w-full p-2 rounded bg-gray-800 border border-gray-600"
+              aria-label="Region"
+            >
+              <option value="auto">Automatic (from location)</option>
+              {emergencyRegions.map(({ code, name }) => (
+                <option key={code} value={code}>{name}</option>
+              ))}
+            </select>
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              {(Object.keys(SERVICE_NUMBER_KEYS) as EmergencyService[]).map(service => (
+                <Input
+                  key={service}
+                  type="tel"
+                  value={settings[SERVICE_NUMBER_KEYS[service]]}
+                  onChange={(e) => updateSetting(SERVICE_NUMBER_KEYS[service], e.target.value)}
+                  placeholder={`${EMERGENCY_SERVICE_LABELS[service]} ${regional.numbers[service]}`}
+                  aria-label={`${EMERGENCY_SERVICE_LABELS[service]} number`}
+                  className="bg-gray-800 border-gray-600"
+                />
+              ))}
+            </div>
+            <p className="text-xs text-gray-400 mt-1">
+              Called once every contact has been tried. Leave a number blank to use the regional one
             </p>
+            {renderError('emergencyRegion')}
+            {Object.values(SERVICE_NUMBER_KEYS).map(key => (
+              <React.Fragment key={key}>{renderError(key)}</React.Fragment>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <label htmlFor="covert-mode" className="text-sm font-medium">
+                Covert Mode
+              </label>
+              <Switch
+                id="covert-mode"
+                checked={settings.covertMode}
+                onCheckedChange={(checked) => updateSetting('covertMode', checked)}
+              />
+            </div>
+            {settings.covertMode && (
+              <select
+                value={settings.decoyScreen}
+                onChange={(e) => updateSetting('decoyScreen', e.target.value as DecoyScreen)}
+                className="w-full p-2 rounded bg-gray-800 border border-gray-600 mt-2"
+                aria-label="Decoy screen"
+              >
+                <option value="calculator">Show a calculator</option>
+                <option value="blank">Show a blank screen</option>
+              </select>
+            )}
+            <p className="text-xs text-gray-400 mt-1">
+              {settings.covertMode
+                ? 'Alerts, location and recording run silently. Hold the top of the screen to bring the emergency controls back. Alerts only go out through the webhook below, and emergency services are only dialled once the controls are back'
+                : 'Hide the emergency screen and stay silent while help is called'}
+            </p>
+            {settings.covertMode && !settings.webhookUrl.trim() && (
+              <p className="text-xs text-yellow-400 mt-1">
+                Without an alert webhook, covert mode can't alert anyone
+              </p>
+            )}
+            {renderError('covertMode')}
+            {renderError('decoyScreen')}
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">
+              Other Triggers
+            </label>
+            <select
+              value={settings.buttonGesture}
+              onChange={(e) => updateSetting('buttonGesture', e.target.value as ButtonGesture)}
+              className="w-full p-2 rounded bg-gray-800 border border-gray-600"
+              aria-label="Emergency button gesture"
+            >
+              <option value="tap">Button: single tap</option>
+              <option value="long-press">Button: press and hold</option>
+              <option value="triple-tap">Button: tap three times</option>
+            </select>
+            <div className="flex items-center justify-between">
+              <label htmlFor="key-trigger" className="text-sm">Repeated key presses</label>
+              <Switch
+                id="key-trigger"
+                checked={settings.keyTriggerEnabled}
+                onCheckedChange={(checked) => updateSetting('keyTriggerEnabled', checked)}
+              />
+            </div>
+            {settings.keyTriggerEnabled && (
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={settings.keyTriggerKey}
+                  onChange={(e) => updateSetting('keyTriggerKey', e.target.value as TriggerKey)}
+                  className="w-full p-2 rounded bg-gray-800 border border-gray-600"
+                  aria-label="Key"
+                >
+                  {(Object.keys(TRIGGER_KEYS) as TriggerKey[]).map(key => (
+                    <option key={key} value={key}>{TRIGGER_KEYS[key]}</option>
+                  ))}
+                </select>
+                <Input
+                  type="number"
+                  value={settings.keyTriggerPresses}
+                  onChange={(e) => updateSetting('keyTriggerPresses', Number(e.target.value))}
+                  className="bg-gray-800 border-gray-600"
+                  aria-label="Presses within three seconds"
+                  min="3"
+                  max="10"
+                />
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <label htmlFor="shake-trigger" className="text-sm">Shake the phone</label>
+              <Switch
+                id="shake-trigger"
+                checked={settings.shakeTriggerEnabled}
+                onCheckedChange={handleShakeToggle}
+              />
+            </div>
+            {settings.shakeTriggerEnabled && (
+              <select
+                value={settings.shakeSensitivity}
+                onChange={(e) => updateSetting('shakeSensitivity', e.target.value as ShakeSensitivity)}
+                className="w-full p-2 rounded bg-gray-800 border border-gray-600"
+                aria-label="Shake sensitivity"
+              >
+                <option value="low">Hard shake</option>
+                <option value="medium">Firm shake</option>
+                <option value="high">Light shake</option>
+              </select>
+            )}
+            <div className="flex items-center justify-between">
+              <label htmlFor="sound-trigger" className="text-sm">Screams and breaking glass</label>
+              <Switch
+                id="sound-trigger"
+                checked={settings.soundTriggerEnabled}
+                onCheckedChange={handleSoundToggle}
+              />
+            </div>
+            {settings.soundTriggerEnabled && (
+              <select
+                value={settings.soundSensitivity}
+                onChange={(e) => updateSetting('soundSensitivity', e.target.value as SoundSensitivity)}
+                className="w-full p-2 rounded bg-gray-800 border border-gray-600"
+                aria-label="Sound sensitivity"
+              >
+                <option value="low">Very loud, nearby sounds only</option>
+                <option value="medium">Loud sounds</option>
+                <option value="high">Quieter or distant sounds (more false alarms)</option>
+              </select>
+            )}
+            <p className="text-xs text-gray-400">
+              Work while this page is open. Volume keys only reach the app on some phones, and
+              loud music or television can set off sound detection
+            </p>
+            {renderError('buttonGesture')}
+            {renderError('keyTriggerPresses')}
+            {renderError('shakeTriggerEnabled')}
+            {renderError('soundTriggerEnabled')}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Emergency Links
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <Button onClick={() => copyTriggerLink('visible')} variant="outline" size="sm" className="border-gray-600">
+                <Copy className="w-4 h-4 mr-2" />
+                Start link
+              </Button>
+              <Button onClick={() => copyTriggerLink('silent')} variant="outline" size="sm" className="border-gray-600">
+                <Copy className="w-4 h-4 mr-2" />
+                Silent link
+              </Button>
+            </div>
+            <Button onClick={handleRegisterScheme} variant="outline" size="sm" className="w-full border-gray-600 mt-2">
+              <Link2 className="w-4 h-4 mr-2" />
+              Open {TRIGGER_SCHEME}: links here
+            </Button>
+            <p className="text-xs text-gray-400 mt-1">
+              Opening either link starts the emergency protocol straight away
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Cancel PIN
+            </label>
+            {pinsUnlocked ? (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  {renderPinInput('cancelPin', 'Cancel PIN')}
+                  {renderPinInput('duressPin', 'Duress PIN')}
+                </div>
+                <p className="text-xs text-gray-400 mt-1">
+                  Needed to stop the protocol. The duress PIN looks like it cancels, but alerting carries on through the webhook below and contacts are told you were forced to stop
+                </p>
+                {settings.duressPin && !settings.webhookUrl.trim() && (
+                  <p className="text-xs text-yellow-400 mt-1">
+                    Without an alert webhook, the duress PIN can't alert anyone
+                  </p>
+                )}
+                {renderError('cancelPin')}
+                {renderError('duressPin')}
+              </>
+            ) : (
+              <>
+                <Button onClick={() => setPinPromptOpen(true)} variant="outline" size="sm" className="w-full border-gray-600">
+                  <Lock className="w-4 h-4 mr-2" />
+                  Change PIN
+                </Button>
+                <p className="text-xs text-gray-400 mt-1">
+                  Needed to stop the protocol
+                </p>
+                {(errors.cancelPin || errors.duressPin) && (
+                  <p className="text-xs text-red-400 mt-1">Unlock the PIN settings to see what needs changing</p>
+                )}
+              </>
+            )}
           </div>
 
           <div>
@@ -86,8 +554,55 @@ const EmergencySettings: React.FC<EmergencySettingsProps> = ({ onSettingsChange
               max="120"
             />
             <p className="text-xs text-gray-400 mt-1">
-              How long to record emergency audio
+              How long to record emergency audio or video
+            </p>
+            {renderError('recordingDuration')}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Evidence Mode
+            </label>
+            <select
+              value={settings.evidenceMode}
+              onChange={(e) => updateSetting('evidenceMode', e.target.value as EvidenceMode)}
+              className="w-full p-2 rounded bg-gray-800 border border-gray-600"
+            >
+              <option value="audio">Audio only</option>
+              <option value="video">Video with audio</option>
+              <option value="photos">Audio with periodic photos</option>
+            </select>
+            {settings.evidenceMode !== 'audio' && (
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                <select
+                  value={settings.cameraFacing}
+                  onChange={(e) => updateSetting('cameraFacing', e.target.value as Settings['cameraFacing'])}
+                  className="w-full p-2 rounded bg-gray-800 border border-gray-600"
+                  aria-label="Camera"
+                >
+                  <option value="environment">Rear camera</option>
+                  <option value="user">Front camera</option>
+                </select>
+                {settings.evidenceMode === 'photos' && (
+                  <Input
+                    type="number"
+                    value={settings.photoInterval}
+                    onChange={(e) => updateSetting('photoInterval', Number(e.target.value))}
+                    className="bg-gray-800 border-gray-600"
+                    aria-label="Seconds between photos"
+                    min="2"
+                    max="60"
+                  />
+                )}
+              </div>
+            )}
+            <p className="text-xs text-gray-400 mt-1">
+              {settings.evidenceMode === 'photos'
+                ? 'A photo is taken every few seconds for as long as recording runs'
+                : 'What to capture once the emergency protocol starts'}
             </p>
+            {renderError('evidenceMode')}
+            {renderError('photoInterval')}
           </div>
 
           <div>
@@ -105,6 +620,52 @@ const EmergencySettings: React.FC<EmergencySettingsProps> = ({ onSettingsChange
             <p className="text-xs text-gray-400 mt-1">
               Time to cancel before emergency protocol starts
             </p>
+            {renderError('cancelCountdown')}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Voice Detection
+            </label>
+            <select
+              value={settings.voiceEngine}
+              onChange={(e) => updateSetting('voiceEngine', e.target.value as VoiceEnginePreference)}
+              className="w-full p-2 rounded bg-gray-800 border border-gray-600"
+              aria-label="Voice detection"
+            >
+              <option value="auto">Automatic</option>
+              <option value="browser" disabled={!voiceCapabilities.speechRecognition}>Browser speech recognition</option>
+              <option value="on-device" disabled={!voiceCapabilities.keywordSpotting}>On this device only</option>
+            </select>
+            <p className="text-xs text-gray-400 mt-1">
+              Browser recognition hears any phrase but may send audio to an online service. On-device
+              detection works offline and keeps audio on the phone, but only hears phrases you've
+              recorded with the microphone button next to them. Automatic uses the browser's when it
+              can and falls back to on-device.
+            </p>
+            {renderError('voiceEngine')}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Voice Languages
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(PHRASE_PACKS) as PackLanguage[]).map(lang => (
+                <label key={lang} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={settings.voiceLanguages.includes(lang)}
+                    onCheckedChange={(checked) => toggleVoiceLanguage(lang, checked === true)}
+                  />
+                  {PHRASE_PACKS[lang].label}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400 mt-1">
+              Up to three. Browsers that can only listen in one language at a time switch between
+              them every few seconds, so a phrase may be missed while another language has its turn.
+            </p>
+            {renderError('voiceLanguages')}
           </div>
 
           <div>
@@ -113,31 +674,45 @@ const EmergencySettings: React.FC<EmergencySettingsProps> = ({ onSettingsChange
             </label>
             <div className="space-y-2">
               {settings.triggerPhrases.map((phrase, index) => (
-                <div key={index} className="flex gap-2">
-                  <Input
-                    value={phrase}
-                    onChange={(e) => {
-                      const newPhrases = [...settings.triggerPhrases];
-                      newPhrases[index] = e.target.value;
-                      updateSetting('triggerPhrases', newPhrases);
-                    }}
-                    className="bg-gray-800 border-gray-600 flex-1"
-                  />
-                  <Button
-                    onClick={() => {
-                      const newPhrases = settings.triggerPhrases.filter((_, i) => i !== index);
-                      updateSetting('triggerPhrases', newPhrases);
-                    }}
-                    variant="ghost"
-                    size="sm"
-                    className="text-red-400"
-                  >
-                    ×
-                  </Button>
+                <div key={index} className="space-y-1">
+                  <div className="flex gap-2">
+                    <Input
+                      value={phrase.phrase}
+                      onChange={(e) => updatePhrase(index, { phrase: e.target.value })}
+                      className="bg-gray-800 border-gray-600 flex-1"
+                    />
+                    {voiceCapabilities.keywordSpotting && (
+                      <Button
+                        onClick={() => setRecordingPhrase(phrase)}
+                        disabled={phrase.phrase.trim() === ''}
+                        variant="ghost"
+                        size="sm"
+                        className={findKeywordModel(phrase) ? 'text-green-400' : 'text-gray-400'}
+                        aria-label={findKeywordModel(phrase) ? 'Recorded for on-device detection' : 'Record for on-device detection'}
+                      >
+                        <Mic className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      onClick={() => {
+                        const newPhrases = settings.triggerPhrases.filter((_, i) => i !== index);
+                        updateSetting('triggerPhrases', newPhrases);
+                      }}
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-400"
+                    >
+                      ×
+                    </Button>
+                  </div>
+                  {renderPhraseRule(phrase, index)}
                 </div>
               ))}
               <Button
-                onClick={() => updateSetting('triggerPhrases', [...settings.triggerPhrases, ''])}
+                onClick={() => updateSetting('triggerPhrases', [
+                  ...settings.triggerPhrases,
+                  createTriggerPhrase('', settings.voiceLanguages[0])
+                ])}
                 variant="outline"
                 size="sm"
                 className="w-full border-gray-600"
@@ -146,17 +721,99 @@ const EmergencySettings: React.FC<EmergencySettingsProps> = ({ onSettingsChange
               </Button>
             </div>
             <p className="text-xs text-gray-400 mt-1">
-              Phrases that will trigger the emergency protocol
+              Phrases that will trigger the emergency protocol. Common words are safer with a rule:
+              repeated, paired with a code word said within 10 seconds, or checked by asking
+              "Are you OK?" out loud, where no answer counts as needing help (covert mode skips the
+              question and triggers straight away). Phrases in a language that isn't ticked above are
+              kept but not listened for.
+            </p>
+            {renderError('triggerPhrases')}
+            <label className="block text-xs text-gray-300 mt-3 mb-2">
+              Match strictness: {Math.round(settings.voiceConfidenceThreshold * 100)}%
+            </label>
+            <Slider
+              value={[settings.voiceConfidenceThreshold]}
+              onValueChange={([value]) => updateSetting('voiceConfidenceThreshold', value)}
+              min={0.3}
+              max={0.95}
+              step={0.05}
+              aria-label="Match strictness"
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              Lower catches phrases heard through noise but risks false alarms
+            </p>
+            {renderError('voiceConfidenceThreshold')}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Alert Webhook URL
+            </label>
+            <Input
+              type="url"
+              value={settings.webhookUrl}
+              onChange={(e) => updateSetting('webhookUrl', e.target.value)}
+              placeholder="https://example.com/alerts"
+              className="bg-gray-800 border-gray-600"
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              Receives a JSON alert for contacts set to notify by webhook
+            </p>
+            {renderError('webhookUrl')}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Acknowledgement Relay URL
+            </label>
+            <Input
+              type="url"
+              value={settings.relayUrl}
+              onChange={(e) => updateSetting('relayUrl', e.target.value)}
+              placeholder="http://localhost:8787"
+              className="bg-gray-800 border-gray-600"
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              Lets contacts confirm they are responding from a link in the alert
+            </p>
+            {renderError('relayUrl')}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Evidence Upload URL
+            </label>
+            <Input
+              type="url"
+              value={settings.evidenceUploadUrl}
+              onChange={(e) => updateSetting('evidenceUploadUrl', e.target.value)}
+              placeholder="https://example.com/evidence"
+              className="bg-gray-800 border-gray-600"
+            />
+            <p className="text-xs text-gray-400 mt-1">
+              Streams the recording off the phone in short chunks while it is being made
             </p>
+            {renderError('evidenceUploadUrl')}
           </div>
 
           <Button
-            onClick={() => setIsOpen(false)}
+            onClick={handleSave}
             className="w-full bg-red-600 hover:bg-red-700"
           >
             Save Settings
           </Button>
         </div>
+        <CancelPinDialog
+          open={pinPromptOpen}
+          onOpenChange={setPinPromptOpen}
+          description="Enter your PIN to change it"
+          onSubmit={handleUnlockPins}
+        />
+        <PhraseRecordingDialog
+          phrase={recordingPhrase}
+          model={recordingPhrase ? findKeywordModel(recordingPhrase) : undefined}
+          onClose={() => setRecordingPhrase(null)}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Check, Phone, X } from "lucide-react";
+import { TRANSPORT_LABELS } from "@/lib/alert-transports";
+import { primaryPhone } from "@/lib/contacts";
+import { EscalationStep, PlannedAlert, ProtocolState, isEmergencyCallSkipped } from "@/lib/emergency-engine";
+import { formatPhone } from "@/lib/phone";
+
+interface EscalationPlanProps {
+  steps: EscalationStep[];
+  state: ProtocolState;
+  emergencyNumber: string;
+}
+
+const alertAddress = ({ contact, channel }: PlannedAlert) => {
+  switch (channel) {
+    case 'email': return contact.email;
+    case 'tel':
+    case 'sms': return formatPhone(primaryPhone(contact));
+    default: return TRANSPORT_LABELS[channel];
+  }
+};
+
+/**
+ * The escalation ladder for the running protocol: steps already tried,
+ * the one being waited on, and what happens next.
+ */
+const EscalationPlan: React.FC<EscalationPlanProps> = ({ steps, state, emergencyNumber }) => {
+  const started = state.phase !== 'idle' && state.phase !== 'countdown';
+  const current = started ? state.stepIndex : -1;
+  const calledServices = state.phase === 'emergency-services';
+
+  const marker = (index: number) => {
+    if (index < current) {
+      return <Check className="w-3 h-3" />;
+    }
+    return index + 1;
+  };
+
+  const markerClass = (index: number) => {
+    if (index === current && state.phase === 'alerting') return 'bg-yellow-500 text-black animate-pulse';
+    if (index <= current) return 'bg-gray-500 text-white';
+    return 'bg-gray-700 text-gray-300';
+  };
+
+  return (
+    <ol className="bg-gray-800 rounded-lg p-3 space-y-3 text-left">
+      {steps.map((step, index) => (
+        <li key={index} className="flex gap-3">
+          <span className={`flex-none w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${markerClass(index)}`}>
+            {marker(index)}
+          </span>
+          <div className={`flex-1 space-y-1 ${index === current ? '' : 'opacity-70'}`}>
+            {step.map(alert => {
+              const unreachable = index === current && state.unreachable.includes(alert.contact.id);
+              return (
+                <div key={alert.contact.id} className="text-sm">
+                  <span className={index === current ? 'font-semibold text-yellow-400' : 'text-gray-200'}>
+                    {alert.contact.name}
+                  </span>
+                  {alert.contact.relationship && (
+                    <span className="text-xs text-gray-400"> • {alert.contact.relationship}</span>
+                  )}
+                  <div className="text-xs text-gray-400 flex items-center gap-1">
+                    {unreachable && <X className="w-3 h-3 text-red-400" />}
+                    {TRANSPORT_LABELS[alert.channel]} • {alertAddress(alert)}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </li>
+      ))}
+      <li className="flex gap-3">
+        <span className={`flex-none w-6 h-6 rounded-full flex items-center justify-center ${
+          calledServices ? 'bg-red-600 text-white animate-pulse' : 'bg-gray-700 text-gray-300'
+        }`}>
+          <Phone className="w-3 h-3" />
+        </span>
+        <div className={`text-sm ${calledServices ? 'font-semibold text-red-400' : 'text-gray-300 opacity-70'}`}>
+          Emergency services ({emergencyNumber})
+          {calledServices && isEmergencyCallSkipped(state) && (
+            <div className="text-xs text-gray-400 font-normal">Not dialled while hidden</div>
+          )}
+        </div>
+      </li>
+    </ol>
+  );
+};
+
+export default EscalationPlan;
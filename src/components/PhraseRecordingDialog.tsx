@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Mic } from "lucide-react";
+import { recordSamples } from "@/lib/audio-capture";
+import {
+  ENROLMENT_TAKES,
+  ENROLMENT_TAKE_SECONDS,
+  KeywordModel,
+  deleteKeywordModel,
+  enrolKeyword
+} from "@/lib/keyword-models";
+import { TriggerPhrase } from "@/lib/settings";
+
+interface PhraseRecordingDialogProps {
+  /** The phrase to record, or null when closed */
+  phrase: TriggerPhrase | null;
+  /** The phrase's current recording, if it has one */
+  model?: KeywordModel;
+  onClose: () => void;
+}
+
+type Take = Awaited<ReturnType<typeof recordSamples>>;
+
+const PhraseRecordingDialog: React.FC<PhraseRecordingDialogProps> = ({ phrase, model, onClose }) => {
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTakes([]);
+    setRecordingError(null);
+  }, [phrase]);
+
+  const recordTake = async () => {
+    if (!phrase) return;
+    setIsRecording(true);
+    setRecordingError(null);
+    try {
+      const take = await recordSamples(ENROLMENT_TAKE_SECONDS);
+      const recorded = [...takes, take];
+      if (recorded.length < ENROLMENT_TAKES) {
+        setTakes(recorded);
+        return;
+      }
+      await enrolKeyword(phrase, recorded);
+      onClose();
+    } catch (error) {
+      console.error('Error recording phrase:', error);
+      setTakes([]);
+      setRecordingError(error instanceof Error ? error.message : 'Recording failed');
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!model) return;
+    try {
+      await deleteKeywordModel(model.id);
+      onClose();
+    } catch (error) {
+      console.error('Error deleting phrase recording:', error);
+    }
+  };
+
+  return (
+    <Dialog open={phrase !== null} onOpenChange={(open) => !open && !isRecording && onClose()}>
+      <DialogContent className="bg-gray-900 text-white border-gray-700 max-w-xs">
+        <DialogHeader>
+          <DialogTitle>Record "{phrase?.phrase}"</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Lets the phrase be recognised on this device, without a connection. Say it once each time
+            you press record, the way you would in an emergency.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col items-center gap-3">
+          <div className="flex gap-2" aria-label={`${takes.length} of ${ENROLMENT_TAKES} takes recorded`}>
+            {Array.from({ length: ENROLMENT_TAKES }, (_, index) => (
+              <span
+                key={index}
+                className={`w-3 h-3 rounded-full ${index < takes.length ? 'bg-green-500' : 'bg-gray-600'}`}
+              />
+            ))}
+          </div>
+          <Button
+            onClick={recordTake}
+            disabled={isRecording}
+            className={isRecording ? 'bg-red-600 hover:bg-red-600 animate-pulse' : 'bg-blue-600 hover:bg-blue-700'}
+          >
+            <Mic className="w-4 h-4 mr-2" />
+            {isRecording ? 'Listening...' : `Record take ${takes.length + 1} of ${ENROLMENT_TAKES}`}
+          </Button>
+          {recordingError && <p className="text-xs text-red-400 text-center">{recordingError}</p>}
+          {model && (
+            <Button onClick={handleDelete} variant="ghost" size="sm" className="text-red-400">
+              Delete recording
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PhraseRecordingDialog;
@@ -0,0 +1,50 @@
+import * as React from "react"
+
+import { SettingsContext } from "@/hooks/use-settings"
+import {
+  SETTINGS_STORAGE_KEY,
+  Settings,
+  loadSettings,
+  parseSettings,
+  saveSettings,
+  settingsSchema,
+} from "@/lib/settings"
+
+export function SettingsProvider({ children }: { children: React.ReactNode }) {
+  const [settings, setSettings] = React.useState<Settings>(loadSettings)
+
+  // Keep other open tabs in sync with changes made here
+  React.useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== SETTINGS_STORAGE_KEY) return
+      try {
+        setSettings(parseSettings(event.newValue ? JSON.parse(event.newValue) : null))
+      } catch (error) {
+        console.error("Error syncing settings:", error)
+      }
+    }
+    window.addEventListener("storage", onStorage)
+    return () => window.removeEventListener("storage", onStorage)
+  }, [])
+
+  const updateSettings = React.useCallback(
+    (patch: Partial<Settings>) => {
+      const result = settingsSchema.safeParse({ ...settings, ...patch })
+      if (result.success) {
+        saveSettings(result.data)
+        setSettings(result.data)
+      }
+      return result
+    },
+    [settings]
+  )
+
+  const value = React.useMemo(
+    () => ({ settings, updateSettings }),
+    [settings, updateSettings]
+  )
+
+  return (
+    <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>
+  )
+}
@@ -1,6 +1,26 @@
 
-import React, { useEffect, useRef, useState } from 'react';
-import { Mic, MicOff } from "lucide-react";
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Cloud, Cpu, Mic, MicOff } from "lucide-react";
+import { useSettings } from "@/hooks/use-settings";
+import { useKeywordModels } from "@/hooks/use-keyword-models";
+import { TranscriptCandidate } from "@/lib/phrase-matcher";
+import { getPhrasePack, sameLanguage } from "@/lib/phrase-packs";
+import {
+  CONFIRMATION_TIMEOUT_MS,
+  RuleOutcome,
+  createPhraseRuleTracker,
+  isAllClear,
+  speakConfirmationPrompt
+} from "@/lib/trigger-rules";
+import {
+  VOICE_ENGINE_LABELS,
+  VoiceEngine,
+  VoiceEngineHandlers,
+  chooseVoiceEngine,
+  createKeywordSpotterEngine,
+  createSpeechRecognitionEngine,
+  getVoiceCapabilities
+} from "@/lib/voice-engines";
 
 interface VoiceTriggerProps {
   onTrigger: () => void;
@@ -8,9 +28,49 @@ interface VoiceTriggerProps {
 }
 
 const VoiceTrigger: React.FC<VoiceTriggerProps> = ({ onTrigger, isActive }) => {
-  const [isListening, setIsListening] = useState(false);
+  const { settings } = useSettings();
+  const { triggerPhrases, voiceConfidenceThreshold, voiceLanguages, voiceEngine, covertMode } = settings;
+  const keywordModels = useKeywordModels();
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [speechFailure, setSpeechFailure] = useState<string | null>(null);
+  const [listeningIn, setListeningIn] = useState<string[]>([]);
   const [transcript, setTranscript] = useState('');
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const [confirmPrompt, setConfirmPrompt] = useState<string | null>(null);
+  const engineRef = useRef<VoiceEngine | null>(null);
+
+  // Phrases are only listened for in the languages they're written in
+  const phrasesIn = (lang: string) => triggerPhrases.filter(phrase => sameLanguage(phrase.lang, lang));
+
+  // Recordings of phrases that are still trigger phrases, in a language being listened in
+  const spottableModels = useMemo(
+    () => keywordModels.filter(model =>
+      voiceLanguages.some(lang => sameLanguage(lang, model.lang)) &&
+      triggerPhrases.some(phrase => phrase.phrase === model.phrase && phrase.lang === model.lang)
+    ),
+    [keywordModels, triggerPhrases, voiceLanguages]
+  );
+
+  const engineChoice = chooseVoiceEngine(voiceEngine, {
+    online: isOnline,
+    speechFailure,
+    enrolledPhrases: spottableModels.length
+  });
+  const { kind: engineKind, reason: engineProblem } = engineChoice;
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      // Most recognition failures are the connection; give it another go
+      setSpeechFailure(null);
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
 
   useEffect(() => {
     if (!isActive) {
@@ -18,101 +78,156 @@ const VoiceTrigger: React.FC<VoiceTriggerProps> = ({ onTrigger, isActive }) => {
       return;
     }
 
-    // Check if browser supports speech recognition
-    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-    
-    if (!SpeechRecognition) {
-      console.warn('Speech recognition not supported in this browser');
+    if (!engineKind) {
+      console.warn('Voice trigger unavailable:', engineProblem);
       return;
     }
 
-    const recognition = new SpeechRecognition();
-    recognition.continuous = true;
-    recognition.interimResults = true;
-    recognition.lang = 'en-US';
+    const trackers = voiceLanguages.map(lang => ({
+      lang,
+      tracker: createPhraseRuleTracker(
+        triggerPhrases.filter(phrase => sameLanguage(phrase.lang, lang)),
+        voiceConfidenceThreshold
+      )
+    }));
+    const trackerFor = (lang: string) => trackers.find(entry => sameLanguage(entry.lang, lang))?.tracker;
+    let isConfirming = false;
+    let confirmTimer: number | null = null;
+    let replyEngine: VoiceEngine | null = null;
 
-    recognition.onstart = () => {
-      setIsListening(true);
-      console.log('Voice recognition started');
+    const fire = (outcome: RuleOutcome) => {
+      console.log(`Voice trigger detected: "${outcome.phrase.phrase}" (${outcome.phrase.lang}, ${outcome.phrase.rule})`);
+      trackers.forEach(({ tracker }) => tracker.reset());
+      onTrigger();
+      engine.restart();
     };
 
-    recognition.onresult = (event) => {
-      let finalTranscript = '';
-      let interimTranscript = '';
-
-      for (let i = event.resultIndex; i < event.results.length; i++) {
-        const transcript = event.results[i][0].transcript;
-        if (event.results[i].isFinal) {
-          finalTranscript += transcript;
-        } else {
-          interimTranscript += transcript;
-        }
+    const endConfirmation = () => {
+      if (confirmTimer !== null) {
+        window.clearTimeout(confirmTimer);
+        confirmTimer = null;
       }
+      replyEngine?.stop();
+      replyEngine = null;
+      isConfirming = false;
+      setConfirmPrompt(null);
+    };
 
-      const fullTranscript = (finalTranscript + interimTranscript).toLowerCase();
-      setTranscript(fullTranscript);
-
-      // Check for trigger phrases
-      const triggerPhrases = ['help me', 'emergency', 'call help', 'i need help'];
-      const triggered = triggerPhrases.some(phrase => fullTranscript.includes(phrase));
+    // Listening stops while the prompt plays so it doesn't hear "say I'm
+    // OK" and take that as the answer. The reply is listened for in the
+    // language the phrase was said in, which takes browser recognition:
+    // keyword spotting only knows the trigger phrases.
+    const confirm = async (outcome: RuleOutcome) => {
+      const { lang } = outcome.phrase;
+      isConfirming = true;
+      setConfirmPrompt(getPhrasePack(lang).confirmPrompt);
+      engine.stop();
+      const spoken = await speakConfirmationPrompt(lang);
+      if (!isConfirming) return;
 
-      if (triggered) {
-        console.log('Voice trigger detected:', fullTranscript);
-        onTrigger();
-        recognition.stop();
+      // No way to ask or to hear an answer means no reason to wait for one
+      if (!spoken || !navigator.onLine || !getVoiceCapabilities().speechRecognition) {
+        endConfirmation();
+        fire(outcome);
+        engine.start();
+        return;
       }
+
+      const checkReply = (reply: TranscriptCandidate[]) => {
+        setTranscript(reply[0].text);
+        if (isAllClear(reply, lang, voiceConfidenceThreshold)) {
+          endConfirmation();
+          trackers.forEach(({ tracker }) => tracker.reset());
+          engine.start();
+        }
+      };
+      replyEngine = createSpeechRecognitionEngine([lang], { onLive: checkReply, onUtterance: () => undefined });
+      replyEngine.start();
+      confirmTimer = window.setTimeout(() => {
+        confirmTimer = null;
+        endConfirmation();
+        fire(outcome);
+        engine.start();
+      }, CONFIRMATION_TIMEOUT_MS);
     };
 
-    recognition.onerror = (event) => {
-      console.error('Speech recognition error:', event.error);
-      setIsListening(false);
+    // Asking out loud would give away that the phone is listening, so in
+    // covert mode a phrase that needs confirming triggers straight away
+    const act = (outcome: RuleOutcome | null) => {
+      if (outcome?.action === 'confirm' && !covertMode) {
+        confirm(outcome);
+      } else if (outcome) {
+        fire(outcome);
+      }
     };
 
-    recognition.onend = () => {
-      setIsListening(false);
-      console.log('Voice recognition ended');
-      
-      // Restart recognition if still active
-      if (isActive) {
-        setTimeout(() => {
-          try {
-            recognition.start();
-          } catch (error) {
-            console.error('Error restarting recognition:', error);
-          }
-        }, 1000);
+    const handlers: VoiceEngineHandlers = {
+      onLive: (candidates, lang) => {
+        // Stopping flushes a last result, which may arrive once the prompt has begun
+        if (isConfirming) return;
+        setTranscript(candidates[0].text);
+        act(trackerFor(lang)?.hearLive(candidates) ?? null);
+      },
+      onUtterance: (candidates, lang) => {
+        if (isConfirming) return;
+        act(trackerFor(lang)?.hearUtterance(candidates, Date.now()) ?? null);
+      },
+      onListeningChange: setListeningIn,
+      onUnavailable: (reason) => {
+        if (engineKind === 'speech-recognition') {
+          setSpeechFailure(reason);
+        }
       }
     };
 
-    recognitionRef.current = recognition;
+    const engine = engineKind === 'keyword-spotter'
+      ? createKeywordSpotterEngine(spottableModels, handlers)
+      : createSpeechRecognitionEngine(voiceLanguages, handlers);
 
-    try {
-      recognition.start();
-    } catch (error) {
-      console.error('Error starting recognition:', error);
-    }
+    engineRef.current = engine;
+    engine.start();
 
     return () => {
-      recognition.stop();
+      if (isConfirming) {
+        window.speechSynthesis.cancel();
+      }
+      endConfirmation();
+      engine.stop();
     };
-  }, [isActive, onTrigger]);
+  }, [isActive, onTrigger, triggerPhrases, voiceConfidenceThreshold, voiceLanguages, covertMode, engineKind, engineProblem, spottableModels]);
 
   const stopListening = () => {
-    if (recognitionRef.current) {
-      recognitionRef.current.stop();
-      setIsListening(false);
+    if (engineRef.current) {
+      engineRef.current.stop();
+      setListeningIn([]);
     }
   };
 
   if (!isActive) return null;
 
+  const heardPhrases = engineKind === 'keyword-spotter'
+    ? spottableModels
+    : voiceLanguages.flatMap(phrasesIn);
+
   return (
     <div className="bg-gray-800 rounded-lg p-4 border-2 border-green-500">
       <div className="flex items-center justify-center mb-3">
-        {isListening ? (
+        {confirmPrompt ? (
+          <div className="flex items-center gap-2 text-yellow-400">
+            <Mic className="w-6 h-6 animate-pulse" />
+            <span className="font-semibold">{confirmPrompt}</span>
+          </div>
+        ) : !engineKind ? (
+          <div className="flex items-center gap-2 text-gray-400">
+            <MicOff className="w-6 h-6" />
+            <span>Voice trigger unavailable</span>
+          </div>
+        ) : listeningIn.length > 0 ? (
           <div className="flex items-center gap-2 text-green-400">
             <Mic className="w-6 h-6 animate-pulse" />
-            <span className="font-semibold">Listening for "Help me"...</span>
+            <span className="font-semibold">
+              Listening for "{heardPhrases.find(({ lang }) => sameLanguage(lang, listeningIn[0]))?.phrase ?? heardPhrases[0]?.phrase}"...
+            </span>
           </div>
         ) : (
           <div className="flex items-center gap-2 text-gray-400">
@@ -121,18 +236,38 @@ const VoiceTrigger: React.FC<VoiceTriggerProps> = ({ onTrigger, isActive }) => {
           </div>
         )}
       </div>
-      
-      {transcript && (
+
+      {transcript && engineKind === 'speech-recognition' && (
         <div className="text-sm text-gray-300 text-center">
           <span className="font-mono bg-gray-700 px-2 py-1 rounded">
             "{transcript}"
           </span>
         </div>
       )}
-      
+
       <div className="text-xs text-gray-500 text-center mt-2">
-        Trigger phrases: "Help me", "Emergency", "Call help", "I need help"
+        Trigger phrases: {heardPhrases.map(({ phrase }) => `"${phrase}"`).join(', ')}
+      </div>
+      {voiceLanguages.length > 1 && engineKind === 'speech-recognition' && (
+        <div className="text-xs text-gray-500 text-center mt-1">
+          Languages: {voiceLanguages.map(lang => getPhrasePack(lang).label).join(' · ')}
+        </div>
+      )}
+
+      <div className="flex items-center justify-center gap-1 text-xs text-gray-400 mt-2">
+        {engineKind === 'keyword-spotter' ? (
+          <Cpu className="w-3 h-3" />
+        ) : (
+          <Cloud className="w-3 h-3" />
+        )}
+        <span>
+          {engineKind ? VOICE_ENGINE_LABELS[engineKind] : 'No voice engine'}
+          {engineKind === 'speech-recognition' && ' (may use an online service)'}
+        </span>
       </div>
+      {engineProblem && (
+        <p className="text-xs text-yellow-400 text-center mt-1">{engineProblem}</p>
+      )}
     </div>
   );
 };
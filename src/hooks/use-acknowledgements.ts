@@ -0,0 +1,74 @@
+import * as React from "react"
+
+import {
+  AckCode,
+  createAckCode,
+  fetchAcknowledgements,
+  normalizeAckCode,
+  registerAckCode,
+} from "@/lib/acknowledgements"
+
+const POLL_INTERVAL = 3000
+
+interface UseAcknowledgementsOptions {
+  relayUrl: string
+  incidentId: string
+  /** Poll the relay only while someone could still acknowledge */
+  enabled: boolean
+  onAcknowledged: (contactId: string) => void
+}
+
+export function useAcknowledgements({
+  relayUrl,
+  incidentId,
+  enabled,
+  onAcknowledged,
+}: UseAcknowledgementsOptions) {
+  const codesRef = React.useRef(new Map<string, AckCode>())
+  const onAcknowledgedRef = React.useRef(onAcknowledged)
+  onAcknowledgedRef.current = onAcknowledged
+
+  const issueCode = React.useCallback(
+    (contact: { id: string; name: string }) => {
+      const ack: AckCode = { code: createAckCode(), contactId: contact.id, contactName: contact.name }
+      codesRef.current.set(ack.code, ack)
+
+      if (relayUrl) {
+        registerAckCode(relayUrl, incidentId, ack).catch((error) => {
+          console.error("Error registering acknowledgement code:", error)
+        })
+      }
+
+      return ack.code
+    },
+    [relayUrl, incidentId]
+  )
+
+  // Codes read back over the phone are checked against the ones we issued
+  const verifyCode = React.useCallback((input: string) => {
+    const ack = codesRef.current.get(normalizeAckCode(input))
+    if (!ack) return false
+    onAcknowledgedRef.current(ack.contactId)
+    return true
+  }, [])
+
+  React.useEffect(() => {
+    if (!enabled || !relayUrl) return
+
+    const interval = window.setInterval(async () => {
+      try {
+        const acks = await fetchAcknowledgements(relayUrl, incidentId)
+        const ack = acks.find((entry) => codesRef.current.has(entry.code))
+        if (ack) {
+          onAcknowledgedRef.current(codesRef.current.get(ack.code).contactId)
+        }
+      } catch (error) {
+        console.error("Error polling acknowledgement relay:", error)
+      }
+    }, POLL_INTERVAL)
+
+    return () => window.clearInterval(interval)
+  }, [enabled, relayUrl, incidentId])
+
+  return { issueCode, verifyCode }
+}
@@ -0,0 +1,61 @@
+import * as React from "react"
+
+import { TriggerSource } from "@/lib/incidents"
+import {
+  BUTTON_GESTURE_SOURCES,
+  ButtonGesture,
+  LONG_PRESS_MS,
+  TAP_PATTERN_COUNT,
+  TAP_PATTERN_WINDOW_MS,
+  createBurstCounter,
+} from "@/lib/triggers"
+
+/**
+ * Pointer handlers for the emergency button that only fire `onTrigger`
+ * once the configured gesture is complete, so a stray tap in a pocket
+ * doesn't start anything.
+ */
+export function useButtonGesture(gesture: ButtonGesture, onTrigger: (source: TriggerSource) => void) {
+  const holdTimer = React.useRef<number>()
+  const [counter] = React.useState(() => createBurstCounter(TAP_PATTERN_COUNT, TAP_PATTERN_WINDOW_MS))
+  const [isHolding, setIsHolding] = React.useState(false)
+  const source = BUTTON_GESTURE_SOURCES[gesture]
+
+  const cancelHold = React.useCallback(() => {
+    window.clearTimeout(holdTimer.current)
+    setIsHolding(false)
+  }, [])
+
+  React.useEffect(() => {
+    counter.reset()
+    return cancelHold
+  }, [gesture, counter, cancelHold])
+
+  const handlers = {
+    onClick: (event: React.MouseEvent) => {
+      // Keyboard and switch access users press once (detail 0), whatever the gesture
+      if (gesture === "tap" || event.detail === 0) {
+        onTrigger(source)
+      } else if (gesture === "triple-tap" && counter.hit(Date.now())) {
+        onTrigger(source)
+      }
+    },
+    onPointerDown: () => {
+      if (gesture !== "long-press") return
+      setIsHolding(true)
+      holdTimer.current = window.setTimeout(() => {
+        setIsHolding(false)
+        onTrigger(source)
+      }, LONG_PRESS_MS)
+    },
+    onPointerUp: cancelHold,
+    onPointerLeave: cancelHold,
+    onPointerCancel: cancelHold,
+    // Holding on a phone otherwise opens the context menu
+    onContextMenu: (event: React.MouseEvent) => {
+      if (gesture === "long-press") event.preventDefault()
+    },
+  }
+
+  return { handlers, isHolding }
+}
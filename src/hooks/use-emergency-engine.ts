@@ -0,0 +1,36 @@
+import * as React from "react"
+
+import {
+  EmergencyEngine,
+  EmergencyEngineOptions,
+  ProtocolConfig,
+} from "@/lib/emergency-engine"
+
+/**
+ * Starts an {@link EmergencyEngine} for the lifetime of the calling component.
+ * The config is captured on mount; an emergency in progress is not affected
+ * by later edits to contacts or settings.
+ */
+export function useEmergencyEngine(
+  config: ProtocolConfig,
+  onEffect: EmergencyEngineOptions["onEffect"]
+) {
+  const onEffectRef = React.useRef(onEffect)
+  onEffectRef.current = onEffect
+
+  const [engine] = React.useState(
+    () =>
+      new EmergencyEngine(config, {
+        onEffect: (effect, state) => onEffectRef.current?.(effect, state),
+      })
+  )
+
+  const state = React.useSyncExternalStore(engine.subscribe, engine.getState)
+
+  React.useEffect(() => {
+    engine.start()
+    return () => engine.dispose()
+  }, [engine])
+
+  return { engine, state }
+}
@@ -0,0 +1,237 @@
+import * as React from "react"
+
+import { EVIDENCE_CHUNK_MS, evidenceUploader } from "@/lib/evidence-upload"
+import { IncidentRecording } from "@/lib/incidents"
+import { RecordingRecord, requestPersistentStorage, saveRecording } from "@/lib/recordings"
+import { Settings } from "@/lib/settings"
+
+const PHOTO_QUALITY = 0.85
+
+interface UseEvidenceCaptureOptions {
+  incidentId: string
+  settings: Pick<
+    Settings,
+    "evidenceMode" | "cameraFacing" | "photoInterval" | "recordingDuration" | "evidenceUploadUrl"
+  >
+  onRecordingSaved: (recording: IncidentRecording) => void
+  onPhotoSaved: (photo: IncidentRecording) => void
+  onError: (message: string) => void
+}
+
+const toIncidentRecording = (recording: RecordingRecord): IncidentRecording => ({
+  id: recording.id,
+  kind: recording.kind,
+  filename: recording.filename,
+  mimeType: recording.mimeType,
+  duration: recording.duration,
+  savedAt: recording.createdAt,
+})
+
+async function openStream(mode: Settings["evidenceMode"], facingMode: Settings["cameraFacing"]) {
+  if (mode === "audio") {
+    return { stream: await navigator.mediaDevices.getUserMedia({ audio: true }), hasCamera: false }
+  }
+
+  try {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: { facingMode } })
+    return { stream, hasCamera: true }
+  } catch (error) {
+    // A missing or blocked camera must not cost us the audio
+    console.error("Error opening camera, falling back to audio:", error)
+    return { stream: await navigator.mediaDevices.getUserMedia({ audio: true }), hasCamera: false }
+  }
+}
+
+function grabFrame(video: HTMLVideoElement): Promise<Blob | null> {
+  const canvas = document.createElement("canvas")
+  canvas.width = video.videoWidth
+  canvas.height = video.videoHeight
+  canvas.getContext("2d")?.drawImage(video, 0, 0)
+  return new Promise((resolve) => canvas.toBlob(resolve, "image/jpeg", PHOTO_QUALITY))
+}
+
+/**
+ * Records audio, video or audio plus periodic stills for an incident. Each
+ * capture is saved to the recordings store and, when an evidence endpoint is
+ * configured, streamed through the upload queue as it is made.
+ */
+export function useEvidenceCapture({
+  incidentId,
+  settings,
+  onRecordingSaved,
+  onPhotoSaved,
+  onError,
+}: UseEvidenceCaptureOptions) {
+  const [isRecording, setIsRecording] = React.useState(false)
+  const [isSaved, setIsSaved] = React.useState(false)
+  const [elapsed, setElapsed] = React.useState(0)
+  const [kind, setKind] = React.useState<"audio" | "video">("audio")
+  const [photoCount, setPhotoCount] = React.useState(0)
+  const [uploadId, setUploadId] = React.useState<string | null>(null)
+
+  const callbacksRef = React.useRef({ onRecordingSaved, onPhotoSaved, onError })
+  callbacksRef.current = { onRecordingSaved, onPhotoSaved, onError }
+
+  // The running capture, so it can be stopped when the protocol goes away
+  const streamRef = React.useRef<MediaStream | null>(null)
+  const recorderRef = React.useRef<MediaRecorder | null>(null)
+  const photoTimerRef = React.useRef<number | null>(null)
+  const stopTimerRef = React.useRef<number | null>(null)
+  const unmountedRef = React.useRef(false)
+
+  // Once cancelled, the microphone and camera must not stay on until the
+  // recording duration runs out. Stopping the recorder still saves and
+  // uploads what was captured so far.
+  React.useEffect(() => {
+    unmountedRef.current = false
+    return () => {
+      unmountedRef.current = true
+      if (photoTimerRef.current !== null) window.clearInterval(photoTimerRef.current)
+      if (stopTimerRef.current !== null) window.clearTimeout(stopTimerRef.current)
+      photoTimerRef.current = null
+      stopTimerRef.current = null
+      if (recorderRef.current?.state === "recording") recorderRef.current.stop()
+      streamRef.current?.getTracks().forEach((track) => track.stop())
+    }
+  }, [])
+
+  // Recording timer
+  React.useEffect(() => {
+    if (!isRecording) return
+    const timer = window.setInterval(() => setElapsed((seconds) => seconds + 1), 1000)
+    return () => window.clearInterval(timer)
+  }, [isRecording])
+
+  const start = React.useCallback(async () => {
+    const endpoint = settings.evidenceUploadUrl
+
+    const takePhoto = async (video: HTMLVideoElement) => {
+      const blob = await grabFrame(video)
+      if (!blob) return
+      const photo = await saveRecording({ incidentId, blob, duration: 0, kind: "photo" })
+      setPhotoCount((count) => count + 1)
+      callbacksRef.current.onPhotoSaved(toIncidentRecording(photo))
+
+      if (endpoint) {
+        await evidenceUploader.enqueueChunk({ uploadId: photo.id, incidentId, endpoint, seq: 0, mimeType: photo.mimeType, blob })
+        await evidenceUploader.enqueueComplete({ uploadId: photo.id, incidentId, endpoint, mimeType: photo.mimeType, chunks: 1 })
+      }
+    }
+
+    try {
+      const { stream, hasCamera } = await openStream(settings.evidenceMode, settings.cameraFacing)
+      if (unmountedRef.current) {
+        stream.getTracks().forEach((track) => track.stop())
+        return
+      }
+      streamRef.current = stream
+      const recordVideo = hasCamera && settings.evidenceMode === "video"
+      const takePhotos = hasCamera && settings.evidenceMode === "photos"
+
+      if (settings.evidenceMode !== "audio" && !hasCamera) {
+        callbacksRef.current.onError("Camera unavailable, recording audio only.")
+      }
+
+      setIsRecording(true)
+      setKind(recordVideo ? "video" : "audio")
+      requestPersistentStorage().catch((error) => console.error("Error requesting persistent storage:", error))
+
+      const recorder = new MediaRecorder(recordVideo ? stream : new MediaStream(stream.getAudioTracks()))
+      recorderRef.current = recorder
+      const fallbackType = recordVideo ? "video/webm" : "audio/webm"
+      const chunks: BlobPart[] = []
+      const recordingUploadId = crypto.randomUUID()
+      let seq = 0
+      if (endpoint) {
+        setUploadId(recordingUploadId)
+      }
+
+      recorder.ondataavailable = (e) => {
+        if (e.data.size === 0) return
+        chunks.push(e.data)
+
+        // Ship each slice off the device as soon as it exists
+        if (endpoint) {
+          evidenceUploader
+            .enqueueChunk({
+              uploadId: recordingUploadId,
+              incidentId,
+              endpoint,
+              seq: seq++,
+              mimeType: recorder.mimeType || fallbackType,
+              blob: e.data,
+            })
+            .catch((error) => console.error("Error queueing evidence chunk:", error))
+        }
+      }
+
+      if (takePhotos) {
+        const video = document.createElement("video")
+        video.muted = true
+        video.playsInline = true
+        video.srcObject = stream
+        await video.play()
+
+        const snap = () =>
+          takePhoto(video).catch((error) => console.error("Error capturing photo:", error))
+        if (!unmountedRef.current) {
+          snap()
+          photoTimerRef.current = window.setInterval(snap, settings.photoInterval * 1000)
+        }
+      }
+
+      const startedAt = Date.now()
+
+      recorder.onstop = async () => {
+        if (photoTimerRef.current !== null) {
+          window.clearInterval(photoTimerRef.current)
+          photoTimerRef.current = null
+        }
+
+        const blob = new Blob(chunks, { type: recorder.mimeType || fallbackType })
+        const duration = Math.round((Date.now() - startedAt) / 1000)
+
+        if (endpoint) {
+          evidenceUploader
+            .enqueueComplete({ uploadId: recordingUploadId, incidentId, endpoint, mimeType: blob.type, chunks: seq })
+            .catch((error) => console.error("Error queueing evidence upload completion:", error))
+        }
+
+        // Keep the capture on the device, linked to this incident
+        try {
+          const recording = await saveRecording({ incidentId, blob, duration, kind: recordVideo ? "video" : "audio" })
+          setIsSaved(true)
+          callbacksRef.current.onRecordingSaved(toIncidentRecording(recording))
+        } catch (error) {
+          console.error("Error saving recording:", error)
+          callbacksRef.current.onError("The emergency recording could not be saved on this device.")
+        }
+
+        stream.getTracks().forEach((track) => track.stop())
+        setIsRecording(false)
+      }
+
+      // Unmounted while the camera was starting up
+      if (unmountedRef.current) {
+        stream.getTracks().forEach((track) => track.stop())
+        setIsRecording(false)
+        return
+      }
+
+      recorder.start(EVIDENCE_CHUNK_MS)
+
+      // Stop recording after the configured duration
+      stopTimerRef.current = window.setTimeout(() => {
+        stopTimerRef.current = null
+        if (recorder.state === "recording") {
+          recorder.stop()
+        }
+      }, settings.recordingDuration * 1000)
+    } catch (error) {
+      console.error("Error starting recording:", error)
+      callbacksRef.current.onError("Could not start recording. Please check microphone and camera permissions.")
+    }
+  }, [incidentId, settings])
+
+  return { start, isRecording, isSaved, elapsed, kind, photoCount, uploadId }
+}
@@ -0,0 +1,12 @@
+import * as React from "react"
+
+import { evidenceUploader } from "@/lib/evidence-upload"
+
+export function useEvidenceUploadProgress(uploadId: string | null) {
+  const getSnapshot = React.useCallback(
+    () => (uploadId ? evidenceUploader.getProgress(uploadId) : undefined),
+    [uploadId]
+  )
+
+  return React.useSyncExternalStore(evidenceUploader.subscribe, getSnapshot)
+}
@@ -0,0 +1,105 @@
+import * as React from "react"
+
+import { primaryPhone } from "@/lib/contacts"
+import { EmergencyEngine, ProtocolState } from "@/lib/emergency-engine"
+import { LatLng, LocationFix, distanceInMeters } from "@/lib/geo"
+import {
+  IncidentRecord,
+  IncidentRecording,
+  TriggerSource,
+  createIncident,
+  saveIncident,
+  updateIncident,
+} from "@/lib/incidents"
+
+const BREADCRUMB_MIN_DISTANCE = 10
+const BREADCRUMB_MAX_INTERVAL = 30_000
+
+const logError = (error: unknown) => console.error("Error saving incident:", error)
+
+/**
+ * Persists the incident behind a running protocol, mirroring the engine's
+ * log into IndexedDB as it grows.
+ */
+export function useIncidentRecord(
+  engine: EmergencyEngine,
+  { id, triggerSource }: { id: string; triggerSource: TriggerSource }
+) {
+  // What started the incident is fixed once it's recorded
+  const startedBy = React.useRef(triggerSource)
+  // Saving a fresh record again would wipe the locations and evidence
+  // attached to it since
+  const createdId = React.useRef<string | null>(null)
+
+  React.useEffect(() => {
+    const initial = engine.getState()
+    let logLength = initial.log.length
+    let phase = initial.phase
+
+    if (createdId.current !== id) {
+      createdId.current = id
+      saveIncident({
+        ...createIncident({
+          id,
+          triggerSource: startedBy.current,
+          contacts: engine.contacts.map((contact) => ({ id: contact.id, name: contact.name, phone: primaryPhone(contact) })),
+        }),
+        events: initial.log,
+        outcome: initial.phase,
+      }).catch(logError)
+    }
+
+    // The engine emits every second while counting down; only write when
+    // something worth recording happened.
+    return engine.subscribe((state: ProtocolState) => {
+      if (state.log.length === logLength && state.phase === phase) return
+      logLength = state.log.length
+      phase = state.phase
+      updateIncident(id, (record) => ({ ...record, events: state.log, outcome: state.phase })).catch(logError)
+    })
+  }, [engine, id])
+
+  const update = React.useCallback(
+    (change: (record: IncidentRecord) => IncidentRecord) => {
+      updateIncident(id, change).catch(logError)
+    },
+    [id]
+  )
+
+  // GPS reports every few seconds even when standing still; only keep
+  // points that show movement or are the first in a while.
+  const recordLocation = React.useCallback(
+    (location: LatLng | LocationFix) =>
+      update((record) => {
+        const at = "at" in location ? location.at : Date.now()
+        const last = record.locations[record.locations.length - 1]
+        if (
+          last &&
+          distanceInMeters(last, location) < BREADCRUMB_MIN_DISTANCE &&
+          at - last.at < BREADCRUMB_MAX_INTERVAL
+        ) {
+          return record
+        }
+        return { ...record, locations: [...record.locations, { ...location, at }] }
+      }),
+    [update]
+  )
+
+  const attachRecording = React.useCallback(
+    (recording: IncidentRecording) => update((record) => ({ ...record, recording })),
+    [update]
+  )
+
+  const attachPhoto = React.useCallback(
+    (photo: IncidentRecording) =>
+      update((record) => ({ ...record, photos: [...(record.photos ?? []), photo] })),
+    [update]
+  )
+
+  const close = React.useCallback(
+    () => update((record) => ({ ...record, endedAt: record.endedAt ?? Date.now() })),
+    [update]
+  )
+
+  return { recordLocation, attachRecording, attachPhoto, close }
+}
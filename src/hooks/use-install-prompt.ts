@@ -0,0 +1,9 @@
+import * as React from "react"
+
+import { installPrompt } from "@/lib/pwa"
+
+export function useInstallPrompt() {
+  const canInstall = React.useSyncExternalStore(installPrompt.subscribe, installPrompt.canInstall)
+
+  return { canInstall, promptInstall: installPrompt.prompt }
+}
@@ -0,0 +1,27 @@
+import * as React from "react"
+
+import { KeywordModel, listKeywordModels, subscribeToKeywordModels } from "@/lib/keyword-models"
+
+/** Phrases recorded for on-device detection, kept current as they're added and removed */
+export function useKeywordModels() {
+  const [models, setModels] = React.useState<KeywordModel[]>([])
+
+  React.useEffect(() => {
+    let cancelled = false
+    const load = () => {
+      listKeywordModels()
+        .then((loaded) => {
+          if (!cancelled) setModels(loaded)
+        })
+        .catch((error) => console.error("Error loading keyword models:", error))
+    }
+    load()
+    const unsubscribe = subscribeToKeywordModels(load)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [])
+
+  return models
+}
@@ -0,0 +1,31 @@
+import * as React from "react"
+
+import { LocationFix, fromPosition } from "@/lib/geo"
+
+/**
+ * Follows the device's position with watchPosition while `active` is true.
+ */
+export function useLocationTracking(active: boolean) {
+  const [fix, setFix] = React.useState<LocationFix | null>(null)
+  const [error, setError] = React.useState<GeolocationPositionError | null>(null)
+
+  React.useEffect(() => {
+    if (!active || !navigator.geolocation) return
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        setFix(fromPosition(position))
+        setError(null)
+      },
+      (positionError) => {
+        console.error("Location tracking error:", positionError)
+        setError(positionError)
+      },
+      { enableHighAccuracy: true, maximumAge: 5000, timeout: 20000 }
+    )
+
+    return () => navigator.geolocation.clearWatch(watchId)
+  }, [active])
+
+  return { fix, error }
+}
@@ -0,0 +1,20 @@
+import * as React from "react"
+
+import { Settings, settingsSchema } from "@/lib/settings"
+
+export type SettingsContextValue = {
+  settings: Settings
+  updateSettings: (patch: Partial<Settings>) => ReturnType<typeof settingsSchema.safeParse>
+}
+
+export const SettingsContext = React.createContext<SettingsContextValue | null>(null)
+
+export function useSettings() {
+  const context = React.useContext(SettingsContext)
+
+  if (!context) {
+    throw new Error("useSettings must be used within a <SettingsProvider />")
+  }
+
+  return context
+}
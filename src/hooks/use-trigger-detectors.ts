@@ -0,0 +1,58 @@
+import * as React from "react"
+
+import { TriggerSource } from "@/lib/incidents"
+import { Settings } from "@/lib/settings"
+import { createDistressSoundDetector } from "@/lib/distress-sound"
+import { TriggerDetector, createKeyPressDetector, createShakeDetector } from "@/lib/triggers"
+
+/**
+ * Runs the hardware, motion and sound triggers turned on in settings for as long
+ * as `enabled` is true, reporting which one fired.
+ */
+export function useTriggerDetectors(
+  settings: Settings,
+  enabled: boolean,
+  onTrigger: (source: TriggerSource) => void
+) {
+  const onTriggerRef = React.useRef(onTrigger)
+  onTriggerRef.current = onTrigger
+
+  const {
+    keyTriggerEnabled,
+    keyTriggerKey,
+    keyTriggerPresses,
+    shakeTriggerEnabled,
+    shakeSensitivity,
+    soundTriggerEnabled,
+    soundSensitivity,
+  } = settings
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    const detectors: TriggerDetector[] = []
+    if (keyTriggerEnabled) {
+      detectors.push(createKeyPressDetector({ key: keyTriggerKey, presses: keyTriggerPresses }))
+    }
+    if (shakeTriggerEnabled) {
+      detectors.push(createShakeDetector({ sensitivity: shakeSensitivity }))
+    }
+    if (soundTriggerEnabled) {
+      detectors.push(createDistressSoundDetector({ sensitivity: soundSensitivity }))
+    }
+
+    const stops = detectors
+      .filter((detector) => detector.isSupported())
+      .map((detector) => detector.start((source) => onTriggerRef.current(source)))
+    return () => stops.forEach((stop) => stop())
+  }, [
+    enabled,
+    keyTriggerEnabled,
+    keyTriggerKey,
+    keyTriggerPresses,
+    shakeTriggerEnabled,
+    shakeSensitivity,
+    soundTriggerEnabled,
+    soundSensitivity,
+  ])
+}
@@ -0,0 +1,60 @@
+// Acknowledgement codes let a contact tell the protocol "I'm on it". Each
+// alert carries a short code and, when a relay is configured, a link that
+// marks the code as acknowledged on the relay when opened.
+
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+const CODE_LENGTH = 6
+
+export interface AckCode {
+  code: string
+  contactId: string
+  contactName: string
+}
+
+export interface Acknowledgement {
+  code: string
+  contactId: string
+  at: number
+}
+
+export function createAckCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH))
+  return Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("")
+}
+
+export function normalizeAckCode(input: string) {
+  return input.trim().toUpperCase().replace(/[^A-Z0-9]/g, "")
+}
+
+function relayEndpoint(relayUrl: string, path: string) {
+  return `${relayUrl.replace(/\/+$/, "")}${path}`
+}
+
+export function buildAckLink(relayUrl: string, code: string) {
+  return relayEndpoint(relayUrl, `/ack/${encodeURIComponent(code)}`)
+}
+
+export function buildAckInstructions(relayUrl: string, code: string) {
+  return relayUrl
+    ? `Tap to confirm you are responding: ${buildAckLink(relayUrl, code)}`
+    : `If you are responding, read back code ${code}.`
+}
+
+export async function registerAckCode(relayUrl: string, incidentId: string, ack: AckCode) {
+  const response = await fetch(relayEndpoint(relayUrl, `/incidents/${encodeURIComponent(incidentId)}/codes`), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(ack),
+  })
+  if (!response.ok) {
+    throw new Error(`Relay rejected acknowledgement code: HTTP ${response.status}`)
+  }
+}
+
+export async function fetchAcknowledgements(relayUrl: string, incidentId: string): Promise<Acknowledgement[]> {
+  const response = await fetch(relayEndpoint(relayUrl, `/incidents/${encodeURIComponent(incidentId)}/acks`))
+  if (!response.ok) {
+    throw new Error(`Relay returned HTTP ${response.status}`)
+  }
+  return response.json()
+}
@@ -0,0 +1,164 @@
+import { enqueueRequest } from "@/lib/outbox"
+
+export type AlertTransportId = "tel" | "sms" | "email" | "share" | "webhook"
+
+export interface AlertMessage {
+  contact: { id: string; name: string; phone: string; email?: string }
+  text: string
+  location: { lat: number; lng: number } | null
+  /** Sent after the person was forced to cancel with the duress PIN */
+  coerced?: boolean
+}
+
+export type DeliveryStatus = "sent" | "opened" | "queued" | "failed" | "unsupported"
+
+export interface DeliveryResult {
+  transport: AlertTransportId
+  contactId: string
+  status: DeliveryStatus
+  detail?: string
+  at: number
+}
+
+export interface AlertTransport {
+  id: AlertTransportId
+  label: string
+  isSupported(): boolean
+  send(message: AlertMessage): Promise<DeliveryResult>
+}
+
+export const DEFAULT_TRANSPORT: AlertTransportId = "tel"
+
+/** Transports that send without bringing another app or sheet up on screen */
+export const SILENT_TRANSPORTS: AlertTransportId[] = ["webhook"]
+
+export const TRANSPORT_LABELS: Record<AlertTransportId, string> = {
+  tel: "Phone call",
+  sms: "Text message",
+  email: "Email",
+  share: "Share sheet",
+  webhook: "Webhook",
+}
+
+function result(
+  transport: AlertTransportId,
+  message: AlertMessage,
+  status: DeliveryStatus,
+  detail?: string
+): DeliveryResult {
+  return { transport, contactId: message.contact.id, status, detail, at: Date.now() }
+}
+
+function openUri(uri: string) {
+  window.open(uri, "_self")
+}
+
+// Handing a URI to the OS only tells us a dialer or messaging app was
+// offered, not that the person got through, hence "opened" rather than "sent".
+export const telTransport: AlertTransport = {
+  id: "tel",
+  label: TRANSPORT_LABELS.tel,
+  isSupported: () => true,
+  async send(message) {
+    openUri(`tel:${message.contact.phone}`)
+    return result("tel", message, "opened")
+  },
+}
+
+export const smsTransport: AlertTransport = {
+  id: "sms",
+  label: TRANSPORT_LABELS.sms,
+  isSupported: () => true,
+  async send(message) {
+    openUri(`sms:${message.contact.phone}?body=${encodeURIComponent(message.text)}`)
+    return result("sms", message, "opened")
+  },
+}
+
+export const emailTransport: AlertTransport = {
+  id: "email",
+  label: TRANSPORT_LABELS.email,
+  isSupported: () => true,
+  async send(message) {
+    if (!message.contact.email) {
+      return result("email", message, "unsupported", "No email address for this contact")
+    }
+    const subject = encodeURIComponent("EMERGENCY ALERT")
+    openUri(`mailto:${message.contact.email}?subject=${subject}&body=${encodeURIComponent(message.text)}`)
+    return result("email", message, "opened")
+  },
+}
+
+const canShare = () => typeof navigator !== "undefined" && typeof navigator.share === "function"
+
+export const shareTransport: AlertTransport = {
+  id: "share",
+  label: TRANSPORT_LABELS.share,
+  isSupported: canShare,
+  async send(message) {
+    if (!canShare()) {
+      return result("share", message, "unsupported", "Web Share API not available")
+    }
+    try {
+      await navigator.share({ title: "EMERGENCY ALERT", text: message.text })
+      return result("share", message, "sent")
+    } catch (error) {
+      return result("share", message, "failed", error instanceof Error ? error.message : String(error))
+    }
+  },
+}
+
+export function createWebhookTransport(url: string, fetchImpl: typeof fetch = fetch): AlertTransport {
+  return {
+    id: "webhook",
+    label: TRANSPORT_LABELS.webhook,
+    isSupported: () => url !== "",
+    async send(message) {
+      if (!url) {
+        return result("webhook", message, "unsupported", "No webhook URL configured")
+      }
+      const request = {
+        url,
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          type: "emergency-alert",
+          contact: message.contact,
+          message: message.text,
+          location: message.location,
+          coerced: message.coerced ?? false,
+          sentAt: new Date().toISOString(),
+        }),
+      }
+      try {
+        const response = await fetchImpl(url, request)
+        return response.ok
+          ? result("webhook", message, "sent")
+          : result("webhook", message, "failed", `HTTP ${response.status}`)
+      } catch (error) {
+        // The network is down rather than the server saying no: keep the
+        // alert so it goes out once the phone is back online
+        try {
+          await enqueueRequest(request)
+          return result("webhook", message, "queued", "Will be sent when back online")
+        } catch {
+          return result("webhook", message, "failed", error instanceof Error ? error.message : String(error))
+        }
+      }
+    },
+  }
+}
+
+export function createAlertTransports(options: { webhookUrl: string }): Record<AlertTransportId, AlertTransport> {
+  return {
+    tel: telTransport,
+    sms: smsTransport,
+    email: emailTransport,
+    share: shareTransport,
+    webhook: createWebhookTransport(options.webhookUrl),
+  }
+}
+
+export function isDelivered(delivery: DeliveryResult) {
+  return delivery.status === "sent" || delivery.status === "opened"
+}
@@ -0,0 +1,87 @@
+/**
+ * Raw microphone audio for analysis done in this app rather than by the
+ * browser's speech recognition. The samples come from an AudioWorklet
+ * (public/audio-capture-worklet.js) and are delivered to MessagePorts, so
+ * a worker can take them without the page being involved.
+ */
+const WORKLET_URL = "/audio-capture-worklet.js"
+
+export interface AudioCapture {
+  sampleRate: number
+  /** Sends every later chunk of mono samples, as a Float32Array, to the port */
+  connect(port: MessagePort): void
+  stop(): void
+}
+
+export function isAudioCaptureSupported() {
+  return (
+    typeof window !== "undefined" &&
+    typeof AudioWorkletNode !== "undefined" &&
+    !!navigator.mediaDevices?.getUserMedia
+  )
+}
+
+export async function startAudioCapture(): Promise<AudioCapture> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: true, noiseSuppression: true, channelCount: 1 },
+  })
+  const context = new AudioContext()
+
+  try {
+    await context.audioWorklet.addModule(WORKLET_URL)
+  } catch (error) {
+    stream.getTracks().forEach((track) => track.stop())
+    await context.close()
+    throw error
+  }
+
+  const source = context.createMediaStreamSource(stream)
+  const node = new AudioWorkletNode(context, "capture-processor", { numberOfOutputs: 0 })
+  source.connect(node)
+
+  return {
+    sampleRate: context.sampleRate,
+    connect(port) {
+      node.port.postMessage({ type: "connect", port }, [port])
+    },
+    stop() {
+      source.disconnect()
+      node.disconnect()
+      stream.getTracks().forEach((track) => track.stop())
+      context.close().catch(() => undefined)
+    },
+  }
+}
+
+/** Asks for the microphone now, from a tap, rather than when detection starts */
+export async function requestMicrophoneAccess() {
+  if (!navigator.mediaDevices?.getUserMedia) return false
+  try {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+    stream.getTracks().forEach((track) => track.stop())
+    return true
+  } catch (error) {
+    console.error("Error requesting microphone access:", error)
+    return false
+  }
+}
+
+/** Records `seconds` of audio and returns the samples, for enrolling a phrase */
+export async function recordSamples(seconds: number) {
+  const capture = await startAudioCapture()
+  const channel = new MessageChannel()
+  const chunks: Float32Array[] = []
+  channel.port1.onmessage = (event: MessageEvent<Float32Array>) => chunks.push(event.data)
+  capture.connect(channel.port2)
+
+  await new Promise((resolve) => window.setTimeout(resolve, seconds * 1000))
+  capture.stop()
+  channel.port1.close()
+
+  const samples = new Float32Array(chunks.reduce((total, chunk) => total + chunk.length, 0))
+  chunks.reduce((offset, chunk) => {
+    samples.set(chunk, offset)
+    return offset + chunk.length
+  }, 0)
+  return { samples, sampleRate: capture.sampleRate }
+}
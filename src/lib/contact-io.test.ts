@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest"
+
+import { EmergencyContact } from "@/lib/contacts"
+import {
+  ContactDraft,
+  buildCsv,
+  buildVCards,
+  csvRowsToDrafts,
+  guessCsvMapping,
+  parseCsv,
+  parseVCards,
+  reviewImport,
+} from "@/lib/contact-io"
+
+const alice: EmergencyContact = {
+  id: "alice",
+  name: "Alice O'Neil, Jr.",
+  phones: [
+    { label: "mobile", number: "+442079460000" },
+    { label: "work", number: "+14155550123" },
+  ],
+  email: "alice@example.com",
+  messaging: [{ service: "signal", handle: "alice.01" }],
+  relationship: "Sister; lives nearby",
+  language: "en",
+  notes: "Line one\nLine two, with \"quotes\" and a very long tail that has to be folded onto the next line",
+  priority: 1,
+  preferredChannel: "sms",
+}
+
+const bob: EmergencyContact = {
+  id: "bob",
+  name: "Bob",
+  phones: [{ label: "home", number: "+33142685300" }],
+  email: "",
+  messaging: [],
+  relationship: "",
+  language: "fr",
+  notes: "",
+  priority: 2,
+  preferredChannel: "tel",
+}
+
+// Everything an export carries except the id, which a file doesn't keep
+const fieldsOf = ({ id, ...fields }: EmergencyContact) => fields
+
+// Blank fields are left out of a draft, and filled in by the import review
+const importAll = (drafts: ContactDraft[]) => reviewImport(drafts, []).map((candidate) => candidate.contact)
+
+describe("vCard", () => {
+  it("reads back every field it writes", () => {
+    expect(importAll(parseVCards(buildVCards([alice, bob])))).toEqual([fieldsOf(alice), fieldsOf(bob)])
+  })
+
+  it("folds long lines and unfolds them when reading", () => {
+    const text = buildVCards([alice])
+    expect(text.split("\r\n").every((line) => line.length <= 75)).toBe(true)
+    expect(parseVCards(text)[0].notes).toBe(alice.notes)
+  })
+
+  it("puts the preferred number first and falls back to the structured name", () => {
+    const [draft] = parseVCards(
+      [
+        "BEGIN:VCARD",
+        "VERSION:3.0",
+        "N:Doe;Jane;;;",
+        "TEL;TYPE=home:+33142685300",
+        "item1.TEL;TYPE=cell,pref:+442079460000",
+        "END:VCARD",
+      ].join("\n")
+    )
+    expect(draft.name).toBe("Jane Doe")
+    expect(draft.phones).toEqual([
+      { label: "mobile", number: "+442079460000" },
+      { label: "home", number: "+33142685300" },
+    ])
+  })
+})
+
+describe("CSV", () => {
+  it("reads back every field it writes", () => {
+    const [headers, ...rows] = parseCsv(buildCsv([alice, bob]))
+    expect(importAll(csvRowsToDrafts(rows, guessCsvMapping(headers)))).toEqual([fieldsOf(alice), fieldsOf(bob)])
+  })
+
+  it("keeps commas, doubled quotes and line breaks inside quoted fields, and skips a BOM", () => {
+    expect(parseCsv('\uFEFFname,notes\r\n"Doe, Jane","Said ""hi""\r\nthen left"\r\n\r\n')).toEqual([
+      ["name", "notes"],
+      ["Doe, Jane", 'Said "hi"\r\nthen left'],
+    ])
+  })
+
+  it("maps recognised headers and ignores a second name column", () => {
+    expect(guessCsvMapping(["First Name", "Surname", "Mobile", "E-mail", "Name", "Full name", "Favourite colour"])).toEqual([
+      "givenName",
+      "familyName",
+      "phone:mobile",
+      "email",
+      "name",
+      "ignore",
+      "ignore",
+    ])
+  })
+})
+
+describe("reviewImport", () => {
+  it("flags rows that repeat an existing contact or an earlier row", () => {
+    const candidates = reviewImport(
+      [
+        { name: "Someone else", phones: [{ label: "mobile", number: "+44 20 7946 0000" }] },
+        { name: "Carol", phones: [{ label: "mobile", number: "+61293744000" }] },
+        { name: "carol", phones: [{ label: "mobile", number: "+81312345678" }] },
+        { name: "Dan", phones: [{ label: "mobile", number: "+4930901820" }], email: "ALICE@example.com" },
+      ],
+      [alice, bob]
+    )
+    expect(candidates.map((candidate) => candidate.duplicateOf)).toEqual([alice.name, null, "Carol", alice.name])
+  })
+
+  it("checks rows against the contact form's rules", () => {
+    const [valid, invalid] = reviewImport(
+      [
+        { name: "Carol", phones: [{ label: "mobile", number: "+61293744000" }] },
+        { name: "Dan", phones: [] },
+      ],
+      [alice, bob]
+    )
+    expect(valid.contact).toMatchObject({ name: "Carol", priority: 3 })
+    expect(valid.error).toBeNull()
+    expect(invalid.contact).toBeNull()
+    expect(invalid.error).toBe("Add at least one phone number")
+  })
+})
@@ -0,0 +1,478 @@
+import { AlertTransportId, TRANSPORT_LABELS } from "@/lib/alert-transports"
+import {
+  ContactFields,
+  EmergencyContact,
+  MessagingHandle,
+  MessagingService,
+  PhoneLabel,
+  PhoneNumber,
+  createContactFieldsSchema,
+  createEmptyContact,
+} from "@/lib/contacts"
+import { normalizePhone } from "@/lib/phone"
+
+export type ContactFileFormat = "vcard" | "csv"
+
+/** A contact read from a file, before validation */
+export type ContactDraft = Partial<ContactFields>
+
+export interface ImportCandidate {
+  draft: ContactDraft
+  /** Set when the draft passes the same rules as the contact form */
+  contact: ContactFields | null
+  error: string | null
+  /** An existing contact, or an earlier row in the same file, this one repeats */
+  duplicateOf: string | null
+}
+
+export function detectFormat(filename: string, text: string): ContactFileFormat {
+  if (/\.(vcf|vcard)$/i.test(filename) || /^\s*BEGIN:VCARD/i.test(text)) return "vcard"
+  return "csv"
+}
+
+function download(filename: string, type: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  // Revoking straight away can cancel the download in some browsers
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export function downloadContacts(contacts: EmergencyContact[], format: ContactFileFormat) {
+  if (format === "vcard") {
+    download("emergency-contacts.vcf", "text/vcard", buildVCards(contacts))
+  } else {
+    download("emergency-contacts.csv", "text/csv", buildCsv(contacts))
+  }
+}
+
+// --- vCard ---------------------------------------------------------------
+
+const VCARD_PHONE_TYPES: Record<PhoneLabel, string> = {
+  mobile: "cell",
+  home: "home",
+  work: "work",
+  other: "voice",
+}
+
+// URI schemes used in IMPP for the services we know about
+const IMPP_SCHEMES: Record<string, MessagingService> = {
+  whatsapp: "whatsapp",
+  signal: "signal",
+  sgnl: "signal",
+  telegram: "telegram",
+  tg: "telegram",
+}
+
+function escapeVCardValue(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/,/g, "\\,").replace(/;/g, "\\;")
+}
+
+function unescapeVCardValue(value: string) {
+  return value.replace(/\\([\\nN,;:])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char))
+}
+
+// Content lines longer than 75 characters are folded onto continuation
+// lines that start with a space
+function foldLine(line: string) {
+  const parts: string[] = []
+  for (let i = 0; i < line.length; i += 74) {
+    parts.push((i === 0 ? "" : " ") + line.slice(i, i + 74))
+  }
+  return parts.join("\r\n")
+}
+
+function buildVCard(contact: EmergencyContact) {
+  const lines = [
+    "BEGIN:VCARD",
+    "VERSION:4.0",
+    `FN:${escapeVCardValue(contact.name)}`,
+    ...contact.phones.map(
+      (phone, index) => `TEL;TYPE=${VCARD_PHONE_TYPES[phone.label]}${index === 0 ? ";PREF=1" : ""}:${escapeVCardValue(phone.number)}`
+    ),
+    ...(contact.email ? [`EMAIL:${escapeVCardValue(contact.email)}`] : []),
+    ...contact.messaging.map((entry) => `IMPP;X-SERVICE-TYPE=${entry.service}:${entry.service}:${escapeVCardValue(entry.handle)}`),
+    ...(contact.language ? [`LANG:${contact.language}`] : []),
+    ...(contact.notes ? [`NOTE:${escapeVCardValue(contact.notes)}`] : []),
+    ...(contact.relationship ? [`X-RELATIONSHIP:${escapeVCardValue(contact.relationship)}`] : []),
+    `X-PRIORITY:${contact.priority}`,
+    `X-ALERT-CHANNEL:${contact.preferredChannel}`,
+    "END:VCARD",
+  ]
+  return lines.map(foldLine).join("\r\n")
+}
+
+export function buildVCards(contacts: EmergencyContact[]) {
+  return contacts.map(buildVCard).join("\r\n") + "\r\n"
+}
+
+interface VCardProperty {
+  name: string
+  params: Record<string, string[]>
+  value: string
+}
+
+function parseVCardLine(line: string): VCardProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false
+  let colon = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i
+      break
+    }
+  }
+  if (colon === -1) return null
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(";")
+  const params: Record<string, string[]> = {}
+  rawParams.forEach((param) => {
+    // vCard 2.1 style bare types ("TEL;CELL:...") are treated as TYPE values
+    const equals = param.indexOf("=")
+    const [key, value] = equals === -1 ? ["TYPE", param] : [param.slice(0, equals), param.slice(equals + 1)]
+    const values = value.replace(/"/g, "").split(",").map((v) => v.trim().toLowerCase())
+    const upper = key.toUpperCase()
+    params[upper] = [...(params[upper] ?? []), ...values]
+  })
+
+  return {
+    // Drop any "item1." style group prefix
+    name: rawName.replace(/^.*\./, "").toUpperCase(),
+    params,
+    value: line.slice(colon + 1),
+  }
+}
+
+function phoneLabelFromTypes(types: string[]): PhoneLabel {
+  if (types.includes("cell") || types.includes("mobile") || types.includes("iphone")) return "mobile"
+  if (types.includes("home")) return "home"
+  if (types.includes("work")) return "work"
+  return "other"
+}
+
+function parseImpp(value: string, serviceType?: string): MessagingHandle {
+  const match = /^([a-z][a-z0-9+.-]*):(.*)$/i.exec(value)
+  const scheme = (serviceType ?? match?.[1] ?? "").toLowerCase()
+  return {
+    service: IMPP_SCHEMES[scheme] ?? "other",
+    handle: match ? match[2].replace(/^\/\//, "") : value,
+  }
+}
+
+function parseVCardBlock(lines: string[]): ContactDraft {
+  const draft: ContactDraft = { phones: [], messaging: [] }
+  let structuredName = ""
+  const preferred: PhoneNumber[] = []
+
+  lines.forEach((line) => {
+    const property = parseVCardLine(line)
+    if (!property) return
+    const types = property.params.TYPE ?? []
+
+    switch (property.name) {
+      case "FN":
+        draft.name = unescapeVCardValue(property.value).trim()
+        break
+      case "N": {
+        const [family = "", given = ""] = property.value.split(/(?<!\\);/).map(unescapeVCardValue)
+        structuredName = `${given} ${family}`.trim()
+        break
+      }
+      case "TEL": {
+        const phone: PhoneNumber = {
+          label: phoneLabelFromTypes(types),
+          number: unescapeVCardValue(property.value).replace(/^tel:/i, "").trim(),
+        }
+        const isPreferred = types.includes("pref") || property.params.PREF !== undefined
+        ;(isPreferred ? preferred : draft.phones!).push(phone)
+        break
+      }
+      case "EMAIL":
+        draft.email ||= unescapeVCardValue(property.value).replace(/^mailto:/i, "").trim()
+        break
+      case "IMPP":
+        draft.messaging!.push(parseImpp(unescapeVCardValue(property.value).trim(), property.params["X-SERVICE-TYPE"]?.[0]))
+        break
+      case "LANG":
+        draft.language ||= property.value.trim()
+        break
+      case "NOTE":
+        draft.notes = unescapeVCardValue(property.value)
+        break
+      case "X-RELATIONSHIP":
+        draft.relationship = unescapeVCardValue(property.value).trim()
+        break
+      case "X-PRIORITY":
+        draft.priority = Number(property.value)
+        break
+      case "X-ALERT-CHANNEL":
+        draft.preferredChannel = parseChannel(property.value) ?? undefined
+        break
+    }
+  })
+
+  draft.name ||= structuredName
+  // The preferred number becomes the one that gets dialled
+  draft.phones = [...preferred, ...draft.phones!]
+  return draft
+}
+
+/** Reads every contact out of a vCard 3.0 or 4.0 file */
+export function parseVCards(text: string): ContactDraft[] {
+  const lines = text.replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n")
+  const drafts: ContactDraft[] = []
+  let block: string[] | null = null
+
+  lines.forEach((line) => {
+    if (/^BEGIN:VCARD$/i.test(line.trim())) {
+      block = []
+    } else if (/^END:VCARD$/i.test(line.trim())) {
+      if (block) drafts.push(parseVCardBlock(block))
+      block = null
+    } else if (block && line.trim()) {
+      block.push(line)
+    }
+  })
+
+  return drafts
+}
+
+// --- CSV -----------------------------------------------------------------
+
+export type CsvTarget =
+  | "ignore"
+  | "name"
+  | "givenName"
+  | "familyName"
+  | `phone:${PhoneLabel}`
+  | "email"
+  | `messaging:${MessagingService}`
+  | "relationship"
+  | "language"
+  | "notes"
+  | "priority"
+  | "preferredChannel"
+
+export const CSV_TARGET_LABELS: Record<CsvTarget, string> = {
+  ignore: "Don't import",
+  name: "Name",
+  givenName: "First name",
+  familyName: "Last name",
+  "phone:mobile": "Mobile phone",
+  "phone:home": "Home phone",
+  "phone:work": "Work phone",
+  "phone:other": "Other phone",
+  email: "Email",
+  "messaging:whatsapp": "WhatsApp",
+  "messaging:signal": "Signal",
+  "messaging:telegram": "Telegram",
+  "messaging:other": "Other messaging",
+  relationship: "Relationship",
+  language: "Language",
+  notes: "Notes",
+  priority: "Priority",
+  preferredChannel: "Alert by",
+}
+
+// Header names we recognise, checked in order so the more specific wins
+const CSV_HEADER_GUESSES: [RegExp, CsvTarget][] = [
+  [/^(first|given)[\s_-]*name$/, "givenName"],
+  [/^(last|family|sur)[\s_-]*name$|^surname$/, "familyName"],
+  [/^(full[\s_-]*|display[\s_-]*)?name$/, "name"],
+  [/e-?mail/, "email"],
+  [/whatsapp/, "messaging:whatsapp"],
+  [/signal/, "messaging:signal"],
+  [/telegram/, "messaging:telegram"],
+  [/messag|chat/, "messaging:other"],
+  [/other/, "phone:other"],
+  [/mobile|cell/, "phone:mobile"],
+  [/home/, "phone:home"],
+  [/work|business|office/, "phone:work"],
+  [/phone|tel/, "phone:mobile"],
+  [/relation/, "relationship"],
+  [/lang/, "language"],
+  [/note/, "notes"],
+  [/priority|order/, "priority"],
+  [/alert|channel/, "preferredChannel"],
+]
+
+/** Parses RFC 4180 CSV, including quoted fields with commas and newlines */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+  const input = text.replace(/^\uFEFF/, "")
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()))
+}
+
+export function guessCsvMapping(headers: string[]): CsvTarget[] {
+  const used = new Set<CsvTarget>()
+  return headers.map((header) => {
+    const normalized = header.trim().toLowerCase()
+    const guess = CSV_HEADER_GUESSES.find(([pattern]) => pattern.test(normalized))?.[1]
+    // Several columns can hold phone numbers or handles, but only one can be the name
+    if (!guess || (used.has(guess) && !guess.includes(":"))) return "ignore"
+    used.add(guess)
+    return guess
+  })
+}
+
+function parseChannel(value: string): AlertTransportId | null {
+  const normalized = value.trim().toLowerCase()
+  const match = (Object.keys(TRANSPORT_LABELS) as AlertTransportId[]).find(
+    (id) => id === normalized || TRANSPORT_LABELS[id].toLowerCase() === normalized
+  )
+  return match ?? null
+}
+
+// One cell can hold several numbers or handles separated by semicolons
+const splitCell = (value: string) => value.split(";").map((part) => part.trim()).filter(Boolean)
+
+export function csvRowsToDrafts(rows: string[][], mapping: CsvTarget[]): ContactDraft[] {
+  return rows.map((cells) => {
+    const draft: ContactDraft = { phones: [], messaging: [] }
+    let given = ""
+    let family = ""
+
+    mapping.forEach((target, column) => {
+      const value = (cells[column] ?? "").trim()
+      if (!value || target === "ignore") return
+
+      if (target.startsWith("phone:")) {
+        const label = target.slice("phone:".length) as PhoneLabel
+        splitCell(value).forEach((number) => draft.phones!.push({ label, number }))
+      } else if (target.startsWith("messaging:")) {
+        const service = target.slice("messaging:".length) as MessagingService
+        splitCell(value).forEach((handle) => draft.messaging!.push({ service, handle }))
+      } else if (target === "givenName") {
+        given = value
+      } else if (target === "familyName") {
+        family = value
+      } else if (target === "priority") {
+        draft.priority = Number(value)
+      } else if (target === "preferredChannel") {
+        draft.preferredChannel = parseChannel(value) ?? undefined
+      } else {
+        draft[target as "name" | "email" | "relationship" | "language" | "notes"] = value
+      }
+    })
+
+    draft.name ||= `${given} ${family}`.trim()
+    return draft
+  })
+}
+
+const CSV_COLUMNS: [string, (contact: EmergencyContact) => string][] = [
+  ["Name", (contact) => contact.name],
+  ["Relationship", (contact) => contact.relationship],
+  ...(["mobile", "home", "work", "other"] as PhoneLabel[]).map(
+    (label): [string, (contact: EmergencyContact) => string] => [
+      CSV_TARGET_LABELS[`phone:${label}`],
+      (contact) => contact.phones.filter((phone) => phone.label === label).map((phone) => phone.number).join("; "),
+    ]
+  ),
+  ["Email", (contact) => contact.email],
+  ...(["whatsapp", "signal", "telegram", "other"] as MessagingService[]).map(
+    (service): [string, (contact: EmergencyContact) => string] => [
+      CSV_TARGET_LABELS[`messaging:${service}`],
+      (contact) => contact.messaging.filter((entry) => entry.service === service).map((entry) => entry.handle).join("; "),
+    ]
+  ),
+  ["Language", (contact) => contact.language],
+  ["Priority", (contact) => String(contact.priority)],
+  ["Alert By", (contact) => contact.preferredChannel],
+  ["Notes", (contact) => contact.notes],
+]
+
+function escapeCsvField(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function buildCsv(contacts: EmergencyContact[]) {
+  const rows = [
+    CSV_COLUMNS.map(([header]) => header),
+    ...contacts.map((contact) => CSV_COLUMNS.map(([, value]) => value(contact))),
+  ]
+  return rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n") + "\r\n"
+}
+
+// --- Review --------------------------------------------------------------
+
+// Compare numbers in E.164 where possible so "+44 20..." and "020..." match
+const phoneKey = (number: string) => normalizePhone(number) ?? number.replace(/\D/g, "")
+
+function findDuplicate(contact: Partial<ContactFields>, others: Partial<ContactFields>[]) {
+  const phones = new Set((contact.phones ?? []).map((phone) => phoneKey(phone.number)).filter(Boolean))
+  const email = contact.email?.trim().toLowerCase()
+  const name = contact.name?.trim().toLowerCase()
+
+  return others.find(
+    (other) =>
+      (other.phones ?? []).some((phone) => phones.has(phoneKey(phone.number))) ||
+      (!!email && other.email?.trim().toLowerCase() === email) ||
+      (!!name && other.name?.trim().toLowerCase() === name)
+  )
+}
+
+/**
+ * Checks each draft against the contact form's rules and flags the ones that
+ * repeat an existing contact or an earlier draft in the same file.
+ */
+export function reviewImport(drafts: ContactDraft[], existing: EmergencyContact[]): ImportCandidate[] {
+  const nextPriority = Math.max(0, ...existing.map((contact) => contact.priority)) + 1
+  const seen: Partial<ContactFields>[] = [...existing]
+  const schema = createContactFieldsSchema()
+
+  return drafts.map((draft) => {
+    const result = schema.safeParse({
+      ...createEmptyContact(),
+      priority: nextPriority,
+      ...Object.fromEntries(Object.entries(draft).filter(([, value]) => value !== undefined)),
+    })
+    const duplicate = findDuplicate(draft, seen)
+    seen.push(draft)
+
+    return {
+      draft,
+      contact: result.success ? (result.data as ContactFields) : null,
+      error: result.success ? null : result.error.issues[0].message,
+      duplicateOf: duplicate?.name ?? null,
+    }
+  })
+}
@@ -0,0 +1,195 @@
+import { z } from "zod"
+
+import { AlertTransportId, DEFAULT_TRANSPORT } from "@/lib/alert-transports"
+import { CountryCode, getDefaultCountry, normalizePhone } from "@/lib/phone"
+
+export const CONTACTS_STORAGE_KEY = "emergencyContacts"
+
+export const PHONE_LABELS = ["mobile", "home", "work", "other"] as const
+export const MESSAGING_SERVICES = ["whatsapp", "signal", "telegram", "other"] as const
+export const CONTACT_LANGUAGES = ["en", "es", "fr", "de", "it", "pt", "nl", "pl", "tr", "ar", "hi", "zh", "ja", "ko", "ru"] as const
+
+export type PhoneLabel = (typeof PHONE_LABELS)[number]
+export type MessagingService = (typeof MESSAGING_SERVICES)[number]
+
+export interface PhoneNumber {
+  label: PhoneLabel
+  number: string
+}
+
+export interface MessagingHandle {
+  service: MessagingService
+  handle: string
+}
+
+export interface EmergencyContact {
+  id: string
+  name: string
+  /** The first number is the one dialled and texted */
+  phones: PhoneNumber[]
+  email: string
+  messaging: MessagingHandle[]
+  relationship: string
+  /** BCP 47 language the contact prefers to be addressed in */
+  language: string
+  notes: string
+  priority: number
+  preferredChannel: AlertTransportId
+}
+
+export type ContactFields = Omit<EmergencyContact, "id">
+
+const transportSchema = z.enum(["tel", "sms", "email", "share", "webhook"])
+
+const phoneSchema = z.object({
+  label: z.enum(PHONE_LABELS),
+  number: z.string().trim(),
+})
+
+const messagingSchema = z.object({
+  service: z.enum(MESSAGING_SERVICES),
+  handle: z.string().trim(),
+})
+
+// Blank rows left over in the form are dropped rather than rejected
+const contactFieldsShape = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  phones: z.array(phoneSchema).transform((phones) => phones.filter((phone) => phone.number)),
+  email: z.union([z.literal(""), z.string().trim().email("Enter a valid email address")]),
+  messaging: z.array(messagingSchema).transform((handles) => handles.filter((entry) => entry.handle)),
+  relationship: z.string().trim(),
+  language: z.string(),
+  notes: z.string(),
+  priority: z.number().int().min(1),
+  preferredChannel: transportSchema,
+})
+
+// Numbers are checked against the country's numbering plan and stored in
+// E.164 so they dial the same from anywhere.
+function dialablePhonesSchema(country: CountryCode) {
+  return z
+    .array(
+      phoneSchema.transform((phone, ctx) => {
+        if (!phone.number) return phone
+        const number = normalizePhone(phone.number, country)
+        if (!number) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["number"], message: "Not a valid phone number" })
+          return z.NEVER
+        }
+        return { ...phone, number }
+      })
+    )
+    .transform((phones) => phones.filter((phone) => phone.number))
+}
+
+/** The rules a new or edited contact must pass before it is saved */
+export function createContactFieldsSchema(country: CountryCode = getDefaultCountry()) {
+  return contactFieldsShape.extend({ phones: dialablePhonesSchema(country) }).superRefine((contact, ctx) => {
+    if (contact.phones.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["phones"], message: "Add at least one phone number" })
+    }
+    if (contact.preferredChannel === "email" && !contact.email) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["email"], message: "An email address is needed to alert by email" })
+    }
+  })
+}
+
+export const contactSchema = contactFieldsShape.extend({ id: z.string().min(1) })
+
+export function createEmptyContact(): ContactFields {
+  return {
+    name: "",
+    phones: [{ label: "mobile", number: "" }],
+    email: "",
+    messaging: [],
+    relationship: "",
+    language: "en",
+    notes: "",
+    priority: 1,
+    preferredChannel: DEFAULT_TRANSPORT,
+  }
+}
+
+const PRIORITY_LABELS: Record<number, string> = { 1: "Primary", 2: "Secondary", 3: "Tertiary" }
+
+export function getPriorityLabel(priority: number) {
+  return PRIORITY_LABELS[priority] ?? `Priority ${priority}`
+}
+
+// Sorts by priority without touching the caller's array; ties keep their
+// original order. This is the escalation order everywhere it is shown or used.
+export function sortByPriority<T extends { priority: number }>(contacts: T[]): T[] {
+  return contacts
+    .map((contact, index) => ({ contact, index }))
+    .sort((a, b) => a.contact.priority - b.contact.priority || a.index - b.index)
+    .map(({ contact }) => contact)
+}
+
+function renumber<T extends { priority: number }>(ordered: T[]): T[] {
+  return ordered.map((contact, index) => (contact.priority === index + 1 ? contact : { ...contact, priority: index + 1 }))
+}
+
+/** Renumbers contacts 1..n in escalation order so no two share a priority */
+export function normalizePriorities<T extends { priority: number }>(contacts: T[]): T[] {
+  return renumber(sortByPriority(contacts))
+}
+
+/** Moves a contact to a new position in the escalation order */
+export function moveContact<T extends { id: string; priority: number }>(contacts: T[], id: string, toIndex: number): T[] {
+  const ordered = sortByPriority(contacts)
+  const fromIndex = ordered.findIndex((contact) => contact.id === id)
+  if (fromIndex === -1) return contacts
+
+  const [moved] = ordered.splice(fromIndex, 1)
+  ordered.splice(Math.max(0, Math.min(toIndex, ordered.length)), 0, moved)
+  return renumber(ordered)
+}
+
+export function primaryPhone(contact: Pick<EmergencyContact, "phones">) {
+  return contact.phones.find((phone) => phone.number)?.number ?? ""
+}
+
+// Contacts saved before the richer model were `{ id, name, phone, priority,
+// transport? }`; lift them into the current shape.
+function migrateLegacyContact(raw: Record<string, unknown>) {
+  if (Array.isArray(raw.phones) || typeof raw.phone !== "string") return raw
+
+  const { phone, transport, ...rest } = raw
+  return {
+    ...rest,
+    phones: [{ label: "mobile", number: phone }],
+    preferredChannel: transport ?? DEFAULT_TRANSPORT,
+  }
+}
+
+export function parseContacts(raw: unknown): EmergencyContact[] {
+  if (!Array.isArray(raw)) return []
+
+  return raw.flatMap((entry) => {
+    if (!entry || typeof entry !== "object") return []
+    const result = contactSchema.safeParse({
+      ...createEmptyContact(),
+      ...migrateLegacyContact(entry as Record<string, unknown>),
+    })
+    if (!result.success) {
+      console.error("Dropping unreadable contact:", entry, result.error)
+      return []
+    }
+    return [result.data as EmergencyContact]
+  })
+}
+
+export function loadContacts(): EmergencyContact[] {
+  try {
+    const saved = localStorage.getItem(CONTACTS_STORAGE_KEY)
+    // Older lists allowed tied priorities; settle them into a strict order
+    return saved ? normalizePriorities(parseContacts(JSON.parse(saved))) : []
+  } catch (error) {
+    console.error("Error loading contacts:", error)
+    return []
+  }
+}
+
+export function saveContacts(contacts: EmergencyContact[]) {
+  localStorage.setItem(CONTACTS_STORAGE_KEY, JSON.stringify(contacts))
+}
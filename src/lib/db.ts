@@ -0,0 +1,82 @@
+const DB_NAME = "alert-buddy"
+const DB_VERSION = 5
+
+export const STORES = {
+  incidents: "incidents",
+  recordings: "recordings",
+  uploadQueue: "uploadQueue",
+  outbox: "outbox",
+  keywordModels: "keywordModels",
+} as const
+
+export type StoreName = (typeof STORES)[keyof typeof STORES]
+
+// Each entry upgrades the schema from the previous version; append new
+// entries rather than editing old ones so existing installs migrate.
+const migrations: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  (db) => {
+    const incidents = db.createObjectStore(STORES.incidents, { keyPath: "id" })
+    incidents.createIndex("startedAt", "startedAt")
+  },
+  (db) => {
+    const recordings = db.createObjectStore(STORES.recordings, { keyPath: "id" })
+    recordings.createIndex("incidentId", "incidentId")
+    recordings.createIndex("createdAt", "createdAt")
+  },
+  (db) => {
+    db.createObjectStore(STORES.uploadQueue, { keyPath: "id" })
+  },
+  (db) => {
+    db.createObjectStore(STORES.outbox, { keyPath: "id" })
+  },
+  (db) => {
+    db.createObjectStore(STORES.keywordModels, { keyPath: "id" })
+  },
+]
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          migrations[version](request.result, request.transaction)
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  const transaction = db.transaction(storeName, mode)
+  const result = requestToPromise(run(transaction.objectStore(storeName)))
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+  return result
+}
@@ -0,0 +1,301 @@
+import { TriggerDetector } from "@/lib/triggers"
+
+/**
+ * Triggering on sounds rather than words, for someone who can't get a
+ * phrase out: a scream, a long stretch of loud wailing or shouting, or
+ * glass breaking. Every frame of microphone audio is boiled down to a few
+ * numbers (how loud, what pitch, how bright, how noisy) and simple rules
+ * over the last second or so decide whether they add up to one of those.
+ */
+export type DistressSound = "scream" | "sustained" | "glass"
+
+export type SoundSensitivity = "low" | "medium" | "high"
+
+interface SensitivityLimits {
+  /** Quietest a frame can be and still count as loud, in dBFS */
+  minLevel: number
+  /** How far above the room's background a loud frame has to be, in dB */
+  aboveFloor: number
+  /** How long a scream has to last */
+  screamMs: number
+  /** How long loud voiced sound has to go on for */
+  sustainedMs: number
+  /** How sharply a breaking glass has to jump above what came before, in dB */
+  onsetJump: number
+}
+
+// Levels assume the browser's automatic gain is off: ordinary talking at
+// arm's length sits around -40 dBFS and a scream across a room nearer -20
+const SENSITIVITY_LIMITS: Record<SoundSensitivity, SensitivityLimits> = {
+  low: { minLevel: -16, aboveFloor: 25, screamMs: 800, sustainedMs: 4000, onsetJump: 30 },
+  medium: { minLevel: -26, aboveFloor: 20, screamMs: 600, sustainedMs: 3000, onsetJump: 25 },
+  high: { minLevel: -32, aboveFloor: 15, screamMs: 400, sustainedMs: 2000, onsetJump: 20 },
+}
+
+const MIN_PITCH = 80
+const MAX_PITCH = 2000
+// How periodic a frame has to be (1 is perfectly) for its pitch to count
+const MIN_CLARITY = 0.6
+// Frames quieter than this aren't worth working out a pitch for
+const PITCH_MIN_LEVEL = -50
+const PITCH_WINDOW = 1024
+
+// Screams sit well above speaking pitch, and are bright with it
+const SCREAM_MIN_PITCH = 400
+const SCREAM_MIN_CENTROID = 1200
+// Alarms and whistles put nearly all their power in one peak; voices
+// spread theirs over the harmonics
+const PURE_TONE_SHARE = 0.9
+
+// Breaking glass is mostly above 4 kHz, broadband at the crack and
+// ringing on for a moment after
+const HIGH_BAND_HZ = 4000
+const GLASS_MIN_HIGH_SHARE = 0.5
+const GLASS_MIN_FLATNESS = 0.2
+const GLASS_RING_ABOVE_FLOOR = 10
+const GLASS_RING_MS = 150
+const GLASS_RING_LIMIT_MS = 400
+
+const ONSET_LOOKBACK_MS = 250
+// Pauses for breath don't end a scream or a wail
+const SCREAM_GAP_MS = 150
+const SUSTAINED_GAP_MS = 400
+// The background level follows quiet rooms down at once and loud ones up slowly
+const NOISE_FLOOR_RISE_PER_MS = 0.002
+const DETECTION_COOLDOWN_MS = 5000
+
+export interface SoundFeatures {
+  /** RMS level in dBFS */
+  level: number
+  /** Fundamental frequency in Hz, or null when the sound has none */
+  pitch: number | null
+  /** Spectral centroid in Hz: how bright the sound is */
+  centroid: number
+  /** Spectral flatness, from 0 for a pure tone to 1 for white noise */
+  flatness: number
+  /** Share of the power above 4 kHz */
+  highShare: number
+  /** Share of the power in the strongest spectral peak */
+  peakShare: number
+}
+
+// Normalised autocorrelation, picking the shortest period nearly as good
+// as the best so a voice isn't heard an octave low
+function detectPitch(samples: Float32Array, sampleRate: number) {
+  const minLag = Math.floor(sampleRate / MAX_PITCH)
+  const maxLag = Math.ceil(sampleRate / MIN_PITCH)
+  const window = Math.min(PITCH_WINDOW, samples.length - maxLag)
+  if (window <= 0) return null
+
+  const clarity = new Float32Array(maxLag + 1)
+  let best = 0
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let product = 0
+    let energy = 0
+    for (let index = 0; index < window; index++) {
+      product += samples[index] * samples[index + lag]
+      energy += samples[index] * samples[index] + samples[index + lag] * samples[index + lag]
+    }
+    clarity[lag] = energy > 0 ? (2 * product) / energy : 0
+    best = Math.max(best, clarity[lag])
+  }
+  if (best < MIN_CLARITY) return null
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (clarity[lag] >= best * 0.9 && clarity[lag] >= clarity[lag - 1] && clarity[lag] >= (clarity[lag + 1] ?? 0)) {
+      return sampleRate / lag
+    }
+  }
+  return null
+}
+
+/**
+ * Features of one frame: `samples` is the waveform and `spectrum` its
+ * magnitudes in dB, as an AnalyserNode gives them.
+ */
+export function extractSoundFeatures(samples: Float32Array, spectrum: Float32Array, sampleRate: number): SoundFeatures {
+  let squares = 0
+  for (let index = 0; index < samples.length; index++) squares += samples[index] * samples[index]
+  const level = 10 * Math.log10(squares / samples.length + 1e-12)
+
+  const binWidth = sampleRate / (2 * spectrum.length)
+  const power = Float32Array.from(spectrum, (decibels) => 10 ** (decibels / 10))
+  let total = 0
+  let weighted = 0
+  let logSum = 0
+  let high = 0
+  let peak = 1
+  // Bin 0 is the DC offset, not sound
+  for (let bin = 1; bin < power.length; bin++) {
+    total += power[bin]
+    weighted += power[bin] * bin * binWidth
+    logSum += Math.log(power[bin] + 1e-12)
+    if (bin * binWidth >= HIGH_BAND_HZ) high += power[bin]
+    if (power[bin] > power[peak]) peak = bin
+  }
+  let peakPower = 0
+  for (let bin = Math.max(1, peak - 2); bin <= Math.min(power.length - 1, peak + 2); bin++) peakPower += power[bin]
+
+  const bins = power.length - 1
+  const mean = total / bins
+  return {
+    level,
+    pitch: level >= PITCH_MIN_LEVEL ? detectPitch(samples, sampleRate) : null,
+    centroid: total > 0 ? weighted / total : 0,
+    flatness: mean > 0 ? Math.exp(logSum / bins) / mean : 0,
+    highShare: total > 0 ? high / total : 0,
+    peakShare: total > 0 ? peakPower / total : 0,
+  }
+}
+
+// How long a condition has held, riding out gaps of up to `gapMs`
+function createRun(gapMs: number) {
+  let since: number | null = null
+  let last = -Infinity
+  return {
+    update(holds: boolean, now: number) {
+      if (now - last > gapMs) since = null
+      if (!holds) return 0
+      since ??= now
+      last = now
+      return now - since
+    },
+    reset() {
+      since = null
+      last = -Infinity
+    },
+  }
+}
+
+/**
+ * Decides from frame after frame of features whether a distress sound has
+ * been heard. `hear` returns the sound a frame completes, if any.
+ */
+export function createDistressClassifier(sensitivity: SoundSensitivity) {
+  const limits = SENSITIVITY_LIMITS[sensitivity]
+  const screaming = createRun(SCREAM_GAP_MS)
+  const wailing = createRun(SUSTAINED_GAP_MS)
+  let recent: { at: number; level: number }[] = []
+  let noiseFloor: number | null = null
+  let lastFrameAt: number | null = null
+  let glassOnsetAt: number | null = null
+  let quietUntil = -Infinity
+
+  const reset = () => {
+    screaming.reset()
+    wailing.reset()
+    recent = []
+    glassOnsetAt = null
+  }
+
+  const hear = (features: SoundFeatures, now: number): DistressSound | null => {
+    const { level, pitch, centroid, flatness, highShare, peakShare } = features
+    const elapsed = lastFrameAt === null ? 0 : now - lastFrameAt
+    lastFrameAt = now
+
+    const earlier = recent.filter((frame) => now - frame.at <= ONSET_LOOKBACK_MS)
+    const before = earlier.length > 0 ? Math.max(...earlier.map((frame) => frame.level)) : level
+    recent = [...earlier, { at: now, level }]
+
+    // Measured before this frame's level raises it
+    const floor = noiseFloor ?? level
+    noiseFloor = Math.min(level, floor + elapsed * NOISE_FLOOR_RISE_PER_MS)
+
+    if (now < quietUntil) return null
+
+    const loud = level >= limits.minLevel && level >= floor + limits.aboveFloor
+    const voiced = loud && pitch !== null && peakShare < PURE_TONE_SHARE
+
+    let heard: DistressSound | null = null
+    if (screaming.update(voiced && (pitch ?? 0) >= SCREAM_MIN_PITCH && centroid >= SCREAM_MIN_CENTROID, now) >= limits.screamMs) {
+      heard = "scream"
+    } else if (wailing.update(voiced, now) >= limits.sustainedMs) {
+      heard = "sustained"
+    }
+
+    if (glassOnsetAt !== null) {
+      const ringing = level >= floor + GLASS_RING_ABOVE_FLOOR && highShare >= GLASS_MIN_HIGH_SHARE
+      if (!ringing || now - glassOnsetAt > GLASS_RING_LIMIT_MS) {
+        glassOnsetAt = null
+      } else if (now - glassOnsetAt >= GLASS_RING_MS) {
+        heard ??= "glass"
+      }
+    } else if (
+      loud &&
+      level - before >= limits.onsetJump &&
+      highShare >= GLASS_MIN_HIGH_SHARE &&
+      flatness >= GLASS_MIN_FLATNESS
+    ) {
+      glassOnsetAt = now
+    }
+
+    if (heard) {
+      reset()
+      quietUntil = now + DETECTION_COOLDOWN_MS
+    }
+    return heard
+  }
+
+  return { hear, reset }
+}
+
+const FFT_SIZE = 2048
+const ANALYSIS_INTERVAL_MS = 50
+
+// Echo cancellation, noise suppression and automatic gain all flatten
+// exactly the loud, sudden sounds being listened for
+const RAW_AUDIO: MediaTrackConstraints = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false,
+  channelCount: 1,
+}
+
+export function createDistressSoundDetector(options: { sensitivity: SoundSensitivity }): TriggerDetector {
+  return {
+    source: "sound",
+    isSupported: () =>
+      typeof window !== "undefined" && typeof AudioContext !== "undefined" && !!navigator.mediaDevices?.getUserMedia,
+    start(onTrigger) {
+      const classifier = createDistressClassifier(options.sensitivity)
+      let running = true
+      let release: () => void = () => undefined
+
+      const listen = async () => {
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: RAW_AUDIO })
+        const context = new AudioContext()
+        if (context.state === "suspended") context.resume().catch(() => undefined)
+        const analyser = context.createAnalyser()
+        analyser.fftSize = FFT_SIZE
+        // Smoothing would blur the crack of breaking glass into the frames around it
+        analyser.smoothingTimeConstant = 0
+        const source = context.createMediaStreamSource(stream)
+        source.connect(analyser)
+
+        const samples = new Float32Array(analyser.fftSize)
+        const spectrum = new Float32Array(analyser.frequencyBinCount)
+        const timer = window.setInterval(() => {
+          analyser.getFloatTimeDomainData(samples)
+          analyser.getFloatFrequencyData(spectrum)
+          if (classifier.hear(extractSoundFeatures(samples, spectrum, context.sampleRate), performance.now())) {
+            onTrigger("sound")
+          }
+        }, ANALYSIS_INTERVAL_MS)
+
+        release = () => {
+          window.clearInterval(timer)
+          source.disconnect()
+          stream.getTracks().forEach((track) => track.stop())
+          context.close().catch(() => undefined)
+        }
+        if (!running) release()
+      }
+
+      listen().catch((error) => console.error("Error starting distress sound detection:", error))
+      return () => {
+        running = false
+        release()
+      }
+    },
+  }
+}
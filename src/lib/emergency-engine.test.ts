@@ -0,0 +1,209 @@
+import { describe, expect, it } from "vitest"
+
+import { EmergencyContact } from "@/lib/contacts"
+import {
+  Clock,
+  EmergencyEngine,
+  ProtocolConfig,
+  ProtocolEffect,
+  createInitialState,
+  getRemainingSeconds,
+  isEmergencyCallSkipped,
+  transition,
+} from "@/lib/emergency-engine"
+
+function createFakeClock(start = 0) {
+  let now = start
+  let nextHandle = 0
+  const timers = new Map<number, { at: number; callback: () => void }>()
+
+  const clock: Clock = {
+    now: () => now,
+    setTimeout(callback, ms) {
+      const handle = ++nextHandle
+      timers.set(handle, { at: now + ms, callback })
+      return handle
+    },
+    clearTimeout(handle) {
+      timers.delete(handle as number)
+    },
+  }
+
+  // Fires due timers one at a time, so timers they set are picked up too
+  const advance = (ms: number) => {
+    const until = now + ms
+    for (;;) {
+      const due = [...timers.entries()]
+        .filter(([, timer]) => timer.at <= until)
+        .sort(([, a], [, b]) => a.at - b.at)[0]
+      if (!due) break
+      const [handle, timer] = due
+      timers.delete(handle)
+      now = timer.at
+      timer.callback()
+    }
+    now = until
+  }
+
+  return { clock, advance }
+}
+
+const contact = (id: string, priority: number): EmergencyContact => ({
+  id,
+  name: id,
+  phones: [{ label: "mobile", number: "+15550100" }],
+  email: "",
+  messaging: [],
+  relationship: "",
+  language: "en",
+  notes: "",
+  priority,
+  preferredChannel: "sms",
+})
+
+const config: ProtocolConfig = {
+  contacts: [contact("bob", 2), contact("alice", 1), contact("carol", 3)],
+  cancelCountdown: 10,
+  responseTimeout: 30,
+  strategy: "sequential",
+  tierSize: 2,
+  emergencyNumber: "112",
+}
+
+function startEngine(overrides: Partial<ProtocolConfig> = {}) {
+  const { clock, advance } = createFakeClock(1000)
+  const effects: ProtocolEffect[] = []
+  const engine = new EmergencyEngine({ ...config, ...overrides }, { clock, onEffect: (effect) => effects.push(effect) })
+  engine.start()
+  return { engine, effects, advance }
+}
+
+const alerted = (effects: ProtocolEffect[]) =>
+  effects.flatMap((effect) => (effect.type === "alertContact" ? [effect.contact.id] : []))
+
+describe("transition", () => {
+  it("counts down before alerting anyone", () => {
+    const { state, effects } = transition(createInitialState(0), { type: "START" }, config, 0)
+    expect(state.phase).toBe("countdown")
+    expect(getRemainingSeconds(state)).toBe(10)
+    expect(effects).toEqual([])
+  })
+
+  it("alerts nobody when cancelled during the countdown", () => {
+    const counting = transition(createInitialState(0), { type: "START" }, config, 0).state
+    const cancelled = transition(counting, { type: "CANCEL" }, config, 4000).state
+    expect(cancelled.phase).toBe("cancelled")
+
+    const later = transition(cancelled, { type: "TICK" }, config, 60000)
+    expect(later.state.phase).toBe("cancelled")
+    expect(later.effects).toEqual([])
+  })
+
+  it("starts recording and alerts the first contact when the countdown runs out", () => {
+    const counting = transition(createInitialState(0), { type: "START" }, config, 0).state
+    const { state, effects } = transition(counting, { type: "TICK" }, config, 10000)
+    expect(state.phase).toBe("alerting")
+    expect(effects[0]).toEqual({ type: "startRecording" })
+    expect(alerted(effects)).toEqual(["bob"])
+  })
+})
+
+describe("EmergencyEngine", () => {
+  it("does nothing after a cancel during the countdown", () => {
+    const { engine, effects, advance } = startEngine()
+    advance(4000)
+    engine.cancel()
+    advance(120000)
+
+    expect(engine.getState().phase).toBe("cancelled")
+    expect(effects).toEqual([])
+  })
+
+  it("escalates through contacts in priority order, one per response window", () => {
+    const { engine, effects, advance } = startEngine()
+    advance(10000)
+    expect(alerted(effects)).toEqual(["alice"])
+
+    advance(29000)
+    expect(alerted(effects)).toEqual(["alice"])
+    advance(1000)
+    expect(alerted(effects)).toEqual(["alice", "bob"])
+
+    advance(30000)
+    expect(alerted(effects)).toEqual(["alice", "bob", "carol"])
+    expect(engine.getState().phase).toBe("alerting")
+  })
+
+  it("calls emergency services once every contact has gone unanswered", () => {
+    const { engine, effects, advance } = startEngine()
+    advance(10000 + 3 * 30000)
+
+    expect(engine.getState().phase).toBe("emergency-services")
+    expect(effects.at(-1)).toEqual({ type: "callEmergencyServices", number: "112" })
+    expect(effects.filter((effect) => effect.type === "callEmergencyServices")).toHaveLength(1)
+  })
+
+  it("logs an emergency call that was held back as skipped", () => {
+    const { engine, advance } = startEngine({ contacts: [] })
+    advance(10000)
+    expect(isEmergencyCallSkipped(engine.getState())).toBe(false)
+
+    engine.reportCallSkipped()
+    expect(engine.getState().log.at(-1)).toEqual({ type: "emergency-services-skipped", at: 11000, number: "112" })
+    expect(isEmergencyCallSkipped(engine.getState())).toBe(true)
+  })
+
+  it("calls emergency services straight away when there are no contacts", () => {
+    const { engine, effects, advance } = startEngine({ contacts: [] })
+    advance(10000)
+
+    expect(engine.getState().phase).toBe("emergency-services")
+    expect(effects).toEqual([{ type: "startRecording" }, { type: "callEmergencyServices", number: "112" }])
+  })
+
+  it("moves on without waiting when a contact can't be reached", () => {
+    const { engine, effects, advance } = startEngine()
+    advance(10000)
+    engine.reportDelivery({ transport: "sms", contactId: "alice", status: "failed", at: 0 })
+
+    expect(alerted(effects)).toEqual(["alice", "bob"])
+  })
+
+  it("stops escalating once a contact acknowledges", () => {
+    const { engine, effects, advance } = startEngine()
+    advance(10000)
+    engine.acknowledge("alice")
+    advance(120000)
+
+    expect(engine.getState().phase).toBe("acknowledged")
+    expect(alerted(effects)).toEqual(["alice"])
+  })
+
+  it("warns everyone already alerted by webhook after the duress PIN", () => {
+    const { engine, effects, advance } = startEngine()
+    advance(10000 + 30000)
+    engine.duress()
+
+    const warnings = effects.slice(3)
+    expect(warnings.map((effect) => effect.type === "alertContact" && [effect.contact.id, effect.channel])).toEqual([
+      ["alice", "webhook"],
+      ["bob", "webhook"],
+    ])
+  })
+
+  it("holds the response window while paused and picks it back up on resume", () => {
+    const { engine, effects, advance } = startEngine()
+    advance(10000 + 10000)
+    engine.pause()
+    expect(getRemainingSeconds(engine.getState())).toBe(20)
+
+    advance(300000)
+    expect(alerted(effects)).toEqual(["alice"])
+
+    engine.resume()
+    advance(19000)
+    expect(alerted(effects)).toEqual(["alice"])
+    advance(1000)
+    expect(alerted(effects)).toEqual(["alice", "bob"])
+  })
+})
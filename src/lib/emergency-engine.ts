@@ -0,0 +1,512 @@
+import { AlertTransportId, DeliveryResult, isDelivered } from "@/lib/alert-transports"
+import { EmergencyContact, sortByPriority } from "@/lib/contacts"
+
+/**
+ * Time source used by the engine. Swap in a fake clock to drive the
+ * protocol deterministically outside the browser.
+ */
+export interface Clock {
+  now(): number
+  setTimeout(callback: () => void, ms: number): unknown
+  clearTimeout(handle: unknown): void
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: (handle) => window.clearTimeout(handle as number),
+}
+
+export type ProtocolPhase =
+  | "idle"
+  | "countdown"
+  | "alerting"
+  | "acknowledged"
+  | "emergency-services"
+  | "cancelled"
+
+export type ProtocolLogEntry =
+  | { type: "countdown-started"; at: number }
+  | { type: "contact-alerted"; at: number; contactId: string }
+  | { type: "alert-delivery"; at: number; delivery: DeliveryResult }
+  | { type: "acknowledged"; at: number; contactId: string }
+  | { type: "emergency-services-called"; at: number; number?: string }
+  | { type: "emergency-services-skipped"; at: number; number: string }
+  | { type: "paused"; at: number }
+  | { type: "resumed"; at: number }
+  | { type: "cancelled"; at: number }
+  | { type: "duress"; at: number }
+
+/**
+ * How contacts are worked through once the countdown ends:
+ * - sequential: one contact per response window, in priority order
+ * - broadcast: everyone at once, then a phone call to the primary contact
+ * - tiered: groups of `tierSize` contacts alerted together, group by group
+ */
+export type EscalationStrategy = "sequential" | "broadcast" | "tiered"
+
+export interface PlannedAlert {
+  contact: EmergencyContact
+  channel: AlertTransportId
+}
+
+/** Contacts alerted together, followed by one response window */
+export type EscalationStep = PlannedAlert[]
+
+export interface ProtocolState {
+  phase: ProtocolPhase
+  /** Index into the escalation plan of the step being waited on */
+  stepIndex: number
+  /** Contacts in the current step whose alert could not be delivered */
+  unreachable: string[]
+  /** When the current countdown or response window runs out */
+  deadline: number | null
+  /** Time left on the current window while escalation is on hold */
+  pausedRemaining: number | null
+  now: number
+  log: ProtocolLogEntry[]
+}
+
+export type ProtocolEvent =
+  | { type: "START" }
+  | { type: "TICK" }
+  | { type: "DELIVERY_REPORTED"; delivery: DeliveryResult }
+  | { type: "ACKNOWLEDGED"; contactId: string }
+  | { type: "PAUSE" }
+  | { type: "RESUME" }
+  | { type: "CANCEL" }
+  | { type: "DURESS" }
+  | { type: "CALL_SKIPPED" }
+
+export type ProtocolEffect =
+  | { type: "startRecording" }
+  | { type: "alertContact"; contact: EmergencyContact; channel: AlertTransportId; step: number }
+  | { type: "callEmergencyServices"; number: string }
+
+export interface ProtocolConfig {
+  /** Contacts in escalation order */
+  contacts: EmergencyContact[]
+  /** Seconds the user has to cancel before anyone is alerted */
+  cancelCountdown: number
+  /** Seconds to wait after each step before escalating to the next one */
+  responseTimeout: number
+  strategy: EscalationStrategy
+  /** Contacts per group for the tiered strategy */
+  tierSize: number
+  /** Dialled once every step has gone unanswered */
+  emergencyNumber: string
+}
+
+export interface TransitionResult {
+  state: ProtocolState
+  effects: ProtocolEffect[]
+}
+
+export function createInitialState(now: number): ProtocolState {
+  return {
+    phase: "idle",
+    stepIndex: 0,
+    unreachable: [],
+    deadline: null,
+    pausedRemaining: null,
+    now,
+    log: [],
+  }
+}
+
+export function isFinished(state: ProtocolState) {
+  return (
+    state.phase === "acknowledged" ||
+    state.phase === "emergency-services" ||
+    state.phase === "cancelled"
+  )
+}
+
+export function getAcknowledgedContactId(state: ProtocolState) {
+  const entry = state.log.find((entry) => entry.type === "acknowledged")
+  return entry?.type === "acknowledged" ? entry.contactId : null
+}
+
+/** Whether the protocol was "cancelled" with the duress PIN */
+export function isCoerced(state: ProtocolState) {
+  return state.log.some((entry) => entry.type === "duress")
+}
+
+/** Whether the call to emergency services was held back to keep the protocol hidden */
+export function isEmergencyCallSkipped(state: ProtocolState) {
+  return state.log.some((entry) => entry.type === "emergency-services-skipped")
+}
+
+export function getRemainingSeconds(state: ProtocolState) {
+  const remaining = state.pausedRemaining ?? (state.deadline === null ? 0 : state.deadline - state.now)
+  return Math.max(0, Math.ceil(remaining / 1000))
+}
+
+// A phone call can only happen one at a time, so contacts who prefer a
+// call are texted when they are alerted alongside others.
+const groupChannel = (contact: EmergencyContact): AlertTransportId =>
+  contact.preferredChannel === "tel" ? "sms" : contact.preferredChannel
+
+const alertGroup = (contacts: EmergencyContact[]): EscalationStep =>
+  contacts.map((contact) => ({
+    contact,
+    channel: contacts.length === 1 ? contact.preferredChannel : groupChannel(contact),
+  }))
+
+/** Lays out who gets alerted at each step for the configured strategy */
+export function planEscalation(config: Pick<ProtocolConfig, "contacts" | "strategy" | "tierSize">): EscalationStep[] {
+  const { contacts } = config
+  if (contacts.length === 0) return []
+
+  switch (config.strategy) {
+    case "broadcast":
+      return [alertGroup(contacts), [{ contact: contacts[0], channel: "tel" }]]
+
+    case "tiered": {
+      const size = Math.max(1, config.tierSize)
+      const steps: EscalationStep[] = []
+      for (let i = 0; i < contacts.length; i += size) {
+        steps.push(alertGroup(contacts.slice(i, i + size)))
+      }
+      return steps
+    }
+
+    case "sequential":
+    default:
+      return contacts.map((contact) => alertGroup([contact]))
+  }
+}
+
+function alertStepAt(
+  state: ProtocolState,
+  index: number,
+  config: ProtocolConfig,
+  now: number
+): TransitionResult {
+  const step = planEscalation(config)[index]
+
+  if (!step) {
+    return {
+      state: {
+        ...state,
+        phase: "emergency-services",
+        stepIndex: index,
+        unreachable: [],
+        deadline: null,
+        pausedRemaining: null,
+        log: [...state.log, { type: "emergency-services-called", at: now, number: config.emergencyNumber }],
+      },
+      effects: [{ type: "callEmergencyServices", number: config.emergencyNumber }],
+    }
+  }
+
+  return {
+    state: {
+      ...state,
+      phase: "alerting",
+      stepIndex: index,
+      unreachable: [],
+      deadline: now + config.responseTimeout * 1000,
+      pausedRemaining: null,
+      log: [
+        ...state.log,
+        ...step.map(({ contact }) => ({ type: "contact-alerted" as const, at: now, contactId: contact.id })),
+      ],
+    },
+    effects: step.map(({ contact, channel }) => ({ type: "alertContact" as const, contact, channel, step: index })),
+  }
+}
+
+// The person is being made to call things off: skip whatever is left of the
+// countdown, lift any hold, and warn everyone already alerted. This applies
+// even after a contact has acknowledged or emergency services were called.
+// The warnings go by webhook: a text composer opening in front of whoever
+// forced the cancel would give the duress away.
+function duress(state: ProtocolState, config: ProtocolConfig, now: number): TransitionResult {
+  const logged = { ...state, log: [...state.log, { type: "duress" as const, at: now }] }
+
+  if (state.phase === "countdown") {
+    const result = alertStepAt(logged, 0, config, now)
+    return { state: result.state, effects: [{ type: "startRecording" }, ...result.effects] }
+  }
+
+  const alertedIds = new Set(
+    state.log.flatMap((entry) => (entry.type === "contact-alerted" ? [entry.contactId] : []))
+  )
+  const resumed =
+    state.pausedRemaining === null
+      ? logged
+      : { ...logged, deadline: now + state.pausedRemaining, pausedRemaining: null }
+  return {
+    state: resumed,
+    effects: config.contacts
+      .filter((contact) => alertedIds.has(contact.id))
+      .map((contact) => ({
+        type: "alertContact" as const,
+        contact,
+        channel: "webhook" as const,
+        step: state.stepIndex,
+      })),
+  }
+}
+
+/**
+ * Pure transition function for the escalation flow:
+ * countdown → each step of the escalation plan in turn → emergency
+ * services, stopping early once any alerted contact acknowledges.
+ */
+export function transition(
+  state: ProtocolState,
+  event: ProtocolEvent,
+  config: ProtocolConfig,
+  now: number
+): TransitionResult {
+  const current = { ...state, now }
+
+  if (event.type === "DURESS") {
+    if (state.phase === "idle" || state.phase === "cancelled" || isCoerced(state)) {
+      return { state: current, effects: [] }
+    }
+    return duress(current, config, now)
+  }
+
+  // Reported after the protocol has already finished, when the call was due
+  if (event.type === "CALL_SKIPPED") {
+    if (state.phase !== "emergency-services" || isEmergencyCallSkipped(state)) {
+      return { state: current, effects: [] }
+    }
+    return {
+      state: {
+        ...current,
+        log: [...state.log, { type: "emergency-services-skipped", at: now, number: config.emergencyNumber }],
+      },
+      effects: [],
+    }
+  }
+
+  if (isFinished(state)) {
+    return { state: current, effects: [] }
+  }
+
+  switch (event.type) {
+    case "START": {
+      if (state.phase !== "idle") break
+      return {
+        state: {
+          ...current,
+          phase: "countdown",
+          deadline: now + config.cancelCountdown * 1000,
+          log: [...state.log, { type: "countdown-started", at: now }],
+        },
+        effects: [],
+      }
+    }
+
+    case "TICK": {
+      if (state.pausedRemaining !== null || state.deadline === null || now < state.deadline) break
+
+      if (state.phase === "countdown") {
+        const result = alertStepAt(current, 0, config, now)
+        return {
+          state: result.state,
+          effects: [{ type: "startRecording" }, ...result.effects],
+        }
+      }
+
+      if (state.phase === "alerting") {
+        return alertStepAt(current, state.stepIndex + 1, config, now)
+      }
+      break
+    }
+
+    case "DELIVERY_REPORTED": {
+      const logged = {
+        ...current,
+        log: [...state.log, { type: "alert-delivery" as const, at: now, delivery: event.delivery }],
+      }
+      const step = planEscalation(config)[state.stepIndex] ?? []
+      const contactId = event.delivery.contactId
+      if (
+        state.phase !== "alerting" ||
+        isDelivered(event.delivery) ||
+        !step.some((alert) => alert.contact.id === contactId) ||
+        state.unreachable.includes(contactId)
+      ) {
+        return { state: logged, effects: [] }
+      }
+
+      // No point waiting out the response window when nobody in this step
+      // was reached
+      const unreachable = [...state.unreachable, contactId]
+      if (step.every((alert) => unreachable.includes(alert.contact.id))) {
+        return alertStepAt(logged, state.stepIndex + 1, config, now)
+      }
+      return { state: { ...logged, unreachable }, effects: [] }
+    }
+
+    case "ACKNOWLEDGED": {
+      if (state.phase !== "alerting") break
+      if (!config.contacts.some((contact) => contact.id === event.contactId)) break
+      return {
+        state: {
+          ...current,
+          phase: "acknowledged",
+          deadline: null,
+          pausedRemaining: null,
+          log: [...state.log, { type: "acknowledged", at: now, contactId: event.contactId }],
+        },
+        effects: [],
+      }
+    }
+
+    case "PAUSE": {
+      if (state.phase !== "alerting" || state.pausedRemaining !== null) break
+      return {
+        state: {
+          ...current,
+          deadline: null,
+          pausedRemaining: Math.max(0, state.deadline - now),
+          log: [...state.log, { type: "paused", at: now }],
+        },
+        effects: [],
+      }
+    }
+
+    case "RESUME": {
+      if (state.pausedRemaining === null) break
+      return {
+        state: {
+          ...current,
+          deadline: now + state.pausedRemaining,
+          pausedRemaining: null,
+          log: [...state.log, { type: "resumed", at: now }],
+        },
+        effects: [],
+      }
+    }
+
+    case "CANCEL": {
+      return {
+        state: {
+          ...current,
+          phase: "cancelled",
+          deadline: null,
+          pausedRemaining: null,
+          log: [...state.log, { type: "cancelled", at: now }],
+        },
+        effects: [],
+      }
+    }
+  }
+
+  return { state: current, effects: [] }
+}
+
+type Listener = (state: ProtocolState) => void
+
+export interface EmergencyEngineOptions {
+  clock?: Clock
+  onEffect?: (effect: ProtocolEffect, state: ProtocolState) => void
+}
+
+/**
+ * Runs {@link transition} against a clock, ticking once a second so
+ * subscribers can render the remaining time.
+ */
+export class EmergencyEngine {
+  private state: ProtocolState
+  private timer: unknown = null
+  private listeners = new Set<Listener>()
+  private readonly clock: Clock
+  private readonly onEffect?: EmergencyEngineOptions["onEffect"]
+  private readonly steps: EscalationStep[]
+
+  constructor(private readonly config: ProtocolConfig, options: EmergencyEngineOptions = {}) {
+    this.clock = options.clock ?? systemClock
+    this.onEffect = options.onEffect
+    this.config = { ...config, contacts: sortByPriority(config.contacts) }
+    this.steps = planEscalation(this.config)
+    this.state = createInitialState(this.clock.now())
+  }
+
+  get contacts() {
+    return this.config.contacts
+  }
+
+  get plan() {
+    return this.steps
+  }
+
+  getState = () => this.state
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  start() {
+    this.send({ type: "START" })
+  }
+
+  pause() {
+    this.send({ type: "PAUSE" })
+  }
+
+  resume() {
+    this.send({ type: "RESUME" })
+  }
+
+  cancel() {
+    this.send({ type: "CANCEL" })
+  }
+
+  duress() {
+    this.send({ type: "DURESS" })
+  }
+
+  acknowledge(contactId: string) {
+    this.send({ type: "ACKNOWLEDGED", contactId })
+  }
+
+  reportDelivery(delivery: DeliveryResult) {
+    this.send({ type: "DELIVERY_REPORTED", delivery })
+  }
+
+  reportCallSkipped() {
+    this.send({ type: "CALL_SKIPPED" })
+  }
+
+  send(event: ProtocolEvent) {
+    const { state, effects } = transition(this.state, event, this.config, this.clock.now())
+    this.state = state
+    this.schedule()
+    this.listeners.forEach((listener) => listener(state))
+    effects.forEach((effect) => this.onEffect?.(effect, state))
+  }
+
+  /** Stops the clock; a later event picks the schedule back up. */
+  dispose() {
+    this.clearTimer()
+  }
+
+  private schedule() {
+    this.clearTimer()
+    if (isFinished(this.state) || this.state.deadline === null) return
+
+    const untilDeadline = this.state.deadline - this.clock.now()
+    const untilNextSecond = untilDeadline % 1000 || 1000
+    this.timer = this.clock.setTimeout(
+      () => this.send({ type: "TICK" }),
+      Math.max(0, Math.min(untilDeadline, untilNextSecond))
+    )
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { LatLng } from "@/lib/geo"
+import { getLocaleCountry } from "@/lib/phone"
+import { Settings } from "@/lib/settings"
+
+export type EmergencyService = "general" | "police" | "ambulance" | "fire"
+
+export type EmergencyNumbers = Record<EmergencyService, string>
+
+export const EMERGENCY_SERVICE_LABELS: Record<EmergencyService, string> = {
+  general: "Emergency",
+  police: "Police",
+  ambulance: "Ambulance",
+  fire: "Fire",
+}
+
+/** Dialled when nothing better is known; routed to local services on most GSM networks */
+export const FALLBACK_EMERGENCY_NUMBER = "112"
+
+type Box = [south: number, west: number, north: number, east: number]
+
+interface CountryEntry {
+  numbers: Partial<EmergencyNumbers> & Pick<EmergencyNumbers, "police">
+  /**
+   * Rough bounding boxes used to guess the country from a location. They
+   * overlap near borders, so the smallest box containing a point wins.
+   */
+  bounds: Box[]
+}
+
+const single = (number: string) => ({ general: number, police: number, ambulance: number, fire: number })
+
+const EMERGENCY_NUMBERS: Record<string, CountryEntry> = {
+  AE: { numbers: { police: "999", ambulance: "998", fire: "997" }, bounds: [[22.6, 51.6, 26.1, 56.4]] },
+  AR: { numbers: { general: "911", police: "911", ambulance: "107", fire: "100" }, bounds: [[-55.1, -73.6, -21.8, -53.6]] },
+  AT: { numbers: { general: "112", police: "133", ambulance: "144", fire: "122" }, bounds: [[46.4, 9.5, 49.0, 17.2]] },
+  AU: { numbers: single("000"), bounds: [[-43.7, 112.9, -10.0, 153.7]] },
+  BE: { numbers: { general: "112", police: "101", ambulance: "112", fire: "112" }, bounds: [[49.5, 2.5, 51.5, 6.4]] },
+  BR: { numbers: { police: "190", ambulance: "192", fire: "193" }, bounds: [[-33.8, -74.0, 5.3, -34.8]] },
+  CA: { numbers: single("911"), bounds: [[41.7, -141.0, 83.1, -52.6]] },
+  CH: { numbers: { general: "112", police: "117", ambulance: "144", fire: "118" }, bounds: [[45.8, 5.9, 47.8, 10.5]] },
+  CL: { numbers: { police: "133", ambulance: "131", fire: "132" }, bounds: [[-56.0, -75.7, -17.5, -66.4]] },
+  CN: { numbers: { police: "110", ambulance: "120", fire: "119" }, bounds: [[18.2, 73.5, 53.6, 134.8]] },
+  CO: { numbers: single("123"), bounds: [[-4.2, -79.0, 12.5, -66.9]] },
+  CZ: { numbers: { general: "112", police: "158", ambulance: "155", fire: "150" }, bounds: [[48.6, 12.1, 51.1, 18.9]] },
+  DE: { numbers: { general: "112", police: "110", ambulance: "112", fire: "112" }, bounds: [[47.3, 5.9, 55.1, 15.0]] },
+  DK: { numbers: single("112"), bounds: [[54.6, 8.1, 57.8, 12.7]] },
+  EG: { numbers: { police: "122", ambulance: "123", fire: "180" }, bounds: [[22.0, 24.7, 31.7, 36.9]] },
+  ES: { numbers: { general: "112", police: "091", ambulance: "061", fire: "080" }, bounds: [[36.0, -9.3, 43.8, 3.3], [27.6, -18.2, 29.5, -13.4]] },
+  FI: { numbers: single("112"), bounds: [[59.8, 20.6, 70.1, 31.6]] },
+  FR: { numbers: { general: "112", police: "17", ambulance: "15", fire: "18" }, bounds: [[41.3, -5.1, 51.1, 9.6]] },
+  GB: { numbers: single("999"), bounds: [[49.9, -8.2, 60.9, 1.8]] },
+  GR: { numbers: { general: "112", police: "100", ambulance: "166", fire: "199" }, bounds: [[34.8, 19.4, 41.8, 28.2]] },
+  HK: { numbers: single("999"), bounds: [[22.15, 113.8, 22.56, 114.44]] },
+  HU: { numbers: { general: "112", police: "107", ambulance: "104", fire: "105" }, bounds: [[45.7, 16.1, 48.6, 22.9]] },
+  ID: { numbers: { general: "112", police: "110", ambulance: "118", fire: "113" }, bounds: [[-11.0, 95.0, 6.1, 141.0]] },
+  IE: { numbers: single("112"), bounds: [[51.4, -10.5, 55.4, -6.0]] },
+  IL: { numbers: { police: "100", ambulance: "101", fire: "102" }, bounds: [[29.5, 34.3, 33.3, 35.9]] },
+  IN: { numbers: { general: "112", police: "100", ambulance: "108", fire: "101" }, bounds: [[6.7, 68.1, 35.5, 97.4]] },
+  IT: { numbers: { general: "112", police: "113", ambulance: "118", fire: "115" }, bounds: [[36.6, 6.6, 47.1, 18.5]] },
+  JP: { numbers: { police: "110", ambulance: "119", fire: "119" }, bounds: [[24.0, 122.9, 45.6, 145.8]] },
+  KE: { numbers: single("999"), bounds: [[-4.7, 33.9, 5.0, 41.9]] },
+  KR: { numbers: { police: "112", ambulance: "119", fire: "119" }, bounds: [[33.1, 124.6, 38.6, 131.9]] },
+  MX: { numbers: single("911"), bounds: [[14.5, -118.4, 32.7, -86.7]] },
+  MY: { numbers: { general: "999", police: "999", ambulance: "999", fire: "994" }, bounds: [[0.85, 99.6, 7.4, 119.3]] },
+  NG: { numbers: single("112"), bounds: [[4.2, 2.7, 13.9, 14.7]] },
+  NL: { numbers: single("112"), bounds: [[50.8, 3.4, 53.6, 7.2]] },
+  NO: { numbers: { police: "112", ambulance: "113", fire: "110" }, bounds: [[57.9, 4.6, 71.2, 31.1]] },
+  NZ: { numbers: single("111"), bounds: [[-47.3, 166.4, -34.4, 178.6]] },
+  PE: { numbers: { police: "105", ambulance: "106", fire: "116" }, bounds: [[-18.4, -81.4, 0.0, -68.7]] },
+  PH: { numbers: single("911"), bounds: [[4.6, 116.9, 21.1, 126.6]] },
+  PL: { numbers: { general: "112", police: "997", ambulance: "999", fire: "998" }, bounds: [[49.0, 14.1, 54.8, 24.2]] },
+  PT: { numbers: single("112"), bounds: [[36.9, -9.5, 42.2, -6.2]] },
+  RO: { numbers: single("112"), bounds: [[43.6, 20.3, 48.3, 29.7]] },
+  RU: { numbers: { general: "112", police: "102", ambulance: "103", fire: "101" }, bounds: [[41.2, 19.6, 81.9, 180.0]] },
+  SA: { numbers: { general: "911", police: "999", ambulance: "997", fire: "998" }, bounds: [[16.4, 34.5, 32.2, 55.7]] },
+  SE: { numbers: single("112"), bounds: [[55.3, 11.1, 69.1, 24.2]] },
+  SG: { numbers: { police: "999", ambulance: "995", fire: "995" }, bounds: [[1.16, 103.6, 1.48, 104.1]] },
+  TH: { numbers: { police: "191", ambulance: "1669", fire: "199" }, bounds: [[5.6, 97.3, 20.5, 105.6]] },
+  TR: { numbers: single("112"), bounds: [[35.8, 26.0, 42.1, 44.8]] },
+  TW: { numbers: { police: "110", ambulance: "119", fire: "119" }, bounds: [[21.9, 120.0, 25.3, 122.0]] },
+  US: {
+    numbers: single("911"),
+    bounds: [[24.4, -124.8, 49.4, -66.9], [51.2, -179.2, 71.4, -129.9], [18.9, -160.3, 22.3, -154.8]],
+  },
+  VN: { numbers: { police: "113", ambulance: "115", fire: "114" }, bounds: [[8.4, 102.1, 23.4, 109.5]] },
+  ZA: { numbers: { general: "112", police: "10111", ambulance: "10177", fire: "10177" }, bounds: [[-34.9, 16.4, -22.1, 32.9]] },
+}
+
+export const EMERGENCY_NUMBER_COUNTRIES = Object.keys(EMERGENCY_NUMBERS)
+
+const contains = ([south, west, north, east]: Box, { lat, lng }: LatLng) =>
+  lat >= south && lat <= north && lng >= west && lng <= east
+
+const area = ([south, west, north, east]: Box) => (north - south) * (east - west)
+
+/** Best guess at the country a point lies in, from the bundled bounding boxes */
+export function countryFromLocation(location: LatLng, preferred?: string | null): string | null {
+  const matches = Object.entries(EMERGENCY_NUMBERS).flatMap(([country, entry]) =>
+    entry.bounds.filter((box) => contains(box, location)).map((box) => ({ country, area: area(box) }))
+  )
+  // Near a border, trust the phone's own region if it is one of the candidates
+  if (preferred && matches.some((match) => match.country === preferred)) return preferred
+  return matches.sort((a, b) => a.area - b.area)[0]?.country ?? null
+}
+
+function numbersFor(country: string | null): EmergencyNumbers {
+  const known = country ? EMERGENCY_NUMBERS[country]?.numbers : undefined
+  if (!known) return single(FALLBACK_EMERGENCY_NUMBER)
+  return {
+    general: known.general ?? known.police,
+    police: known.police,
+    ambulance: known.ambulance ?? known.general ?? known.police,
+    fire: known.fire ?? known.general ?? known.police,
+  }
+}
+
+export type EmergencyNumberOverrides = Pick<
+  Settings,
+  "emergencyRegion" | "emergencyNumber" | "policeNumber" | "ambulanceNumber" | "fireNumber"
+>
+
+export interface ResolvedEmergencyNumbers {
+  country: string | null
+  source: "settings" | "location" | "locale" | "fallback"
+  numbers: EmergencyNumbers
+}
+
+/**
+ * Works out which numbers reach emergency services: the region chosen in
+ * settings, else where the person is, else their phone's region. Numbers
+ * entered in settings win over the table.
+ */
+export function resolveEmergencyNumbers(
+  overrides: EmergencyNumberOverrides,
+  location: LatLng | null
+): ResolvedEmergencyNumbers {
+  const localeCountry = getLocaleCountry()
+  const locatedCountry = location ? countryFromLocation(location, localeCountry) : null
+  let country: string | null = null
+  let source: ResolvedEmergencyNumbers["source"] = "fallback"
+
+  if (overrides.emergencyRegion !== "auto" && EMERGENCY_NUMBERS[overrides.emergencyRegion]) {
+    country = overrides.emergencyRegion
+    source = "settings"
+  } else if (locatedCountry) {
+    country = locatedCountry
+    source = "location"
+  } else if (localeCountry && EMERGENCY_NUMBERS[localeCountry]) {
+    country = localeCountry
+    source = "locale"
+  }
+
+  const table = numbersFor(country)
+  return {
+    country,
+    source,
+    numbers: {
+      general: overrides.emergencyNumber || table.general,
+      police: overrides.policeNumber || table.police,
+      ambulance: overrides.ambulanceNumber || table.ambulance,
+      fire: overrides.fireNumber || table.fire,
+    },
+  }
+}
@@ -0,0 +1,219 @@
+import { STORES, withStore } from "@/lib/db"
+import { SYNC_TAGS, requestBackgroundSync } from "@/lib/outbox"
+
+/** How much audio each uploaded chunk holds */
+export const EVIDENCE_CHUNK_MS = 5000
+
+const MAX_RETRY_DELAY = 60_000
+
+// Chunks are PUT to `${endpoint}/uploads/${uploadId}/chunks/${seq}` and the
+// upload is closed with a POST to `${endpoint}/uploads/${uploadId}/complete`.
+// Both are idempotent, so a chunk that was received but not acknowledged
+// before the connection dropped can safely be sent again.
+interface QueuedItem {
+  /** `${uploadId}:${seq}` with seq zero-padded so keys sort in upload order */
+  id: string
+  uploadId: string
+  incidentId: string
+  endpoint: string
+  seq: number
+  kind: "chunk" | "complete"
+  blob: Blob | null
+  mimeType: string
+  attempts: number
+  createdAt: number
+}
+
+export interface UploadProgress {
+  uploaded: number
+  pending: number
+  lastError: string | null
+  /** Whether the server turned any of it away for good */
+  rejected: boolean
+  complete: boolean
+}
+
+type Listener = () => void
+
+const queueKey = (uploadId: string, seq: number) => `${uploadId}:${seq.toString().padStart(8, "0")}`
+
+function endpointFor(item: QueuedItem) {
+  const base = `${item.endpoint.replace(/\/+$/, "")}/uploads/${encodeURIComponent(item.uploadId)}`
+  return item.kind === "chunk" ? `${base}/chunks/${item.seq}` : `${base}/complete`
+}
+
+async function sendItem(item: QueuedItem) {
+  const response =
+    item.kind === "chunk"
+      ? await fetch(endpointFor(item), {
+          method: "PUT",
+          headers: {
+            "Content-Type": item.mimeType,
+            "X-Incident-Id": item.incidentId,
+          },
+          body: item.blob,
+        })
+      : await fetch(endpointFor(item), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ incidentId: item.incidentId, chunks: item.seq, mimeType: item.mimeType }),
+        })
+
+  if (!response.ok) {
+    throw new UploadError(response.status)
+  }
+}
+
+class UploadError extends Error {
+  constructor(readonly status: number) {
+    super(`HTTP ${status}`)
+  }
+
+  // A wrong endpoint or a chunk the server won't take won't get better by
+  // retrying; timeouts and rate limits will
+  get permanent() {
+    return this.status >= 400 && this.status < 500 && this.status !== 408 && this.status !== 429
+  }
+}
+
+/**
+ * Uploads recording chunks in order from a queue kept in IndexedDB, so
+ * chunks recorded while offline, or before the tab was closed, are still
+ * delivered later.
+ */
+class EvidenceUploader {
+  private running = false
+  private flushRequested = false
+  private retryTimer: number | null = null
+  private progress = new Map<string, UploadProgress>()
+  private listeners = new Set<Listener>()
+
+  constructor() {
+    if (typeof window !== "undefined") {
+      window.addEventListener("online", () => this.flush())
+    }
+  }
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getProgress = (uploadId: string): UploadProgress | undefined => this.progress.get(uploadId)
+
+  async enqueueChunk(fields: Pick<QueuedItem, "uploadId" | "incidentId" | "endpoint" | "seq" | "mimeType"> & { blob: Blob }) {
+    await this.enqueue({ ...fields, kind: "chunk" })
+  }
+
+  /** Marks the upload finished once every chunk before `chunks` has been sent */
+  async enqueueComplete(fields: Pick<QueuedItem, "uploadId" | "incidentId" | "endpoint" | "mimeType"> & { chunks: number }) {
+    const { chunks, ...rest } = fields
+    await this.enqueue({ ...rest, seq: chunks, kind: "complete", blob: null })
+  }
+
+  async flush() {
+    if (this.running) {
+      this.flushRequested = true
+      return
+    }
+    this.running = true
+    this.flushRequested = false
+    this.clearRetry()
+
+    try {
+      while (navigator.onLine) {
+        const [item] = await withStore<QueuedItem[]>(STORES.uploadQueue, "readonly", (store) => store.getAll(null, 1))
+        if (!item) break
+
+        try {
+          await sendItem(item)
+        } catch (error) {
+          // Dropped like a 4xx in the outbox, so it can't hold up the
+          // evidence queued behind it
+          if (error instanceof UploadError && error.permanent) {
+            console.error(`Evidence upload ${item.id} rejected:`, error.message)
+            await withStore(STORES.uploadQueue, "readwrite", (store) => store.delete(item.id))
+            this.update(item.uploadId, (progress) => ({
+              ...progress,
+              pending: item.kind === "chunk" ? Math.max(0, progress.pending - 1) : progress.pending,
+              lastError: error.message,
+              rejected: true,
+            }))
+            continue
+          }
+          const attempts = item.attempts + 1
+          await withStore(STORES.uploadQueue, "readwrite", (store) => store.put({ ...item, attempts }))
+          this.update(item.uploadId, (progress) => ({
+            ...progress,
+            lastError: error instanceof Error ? error.message : String(error),
+          }))
+          this.scheduleRetry(Math.min(MAX_RETRY_DELAY, 1000 * 2 ** attempts))
+          requestBackgroundSync(SYNC_TAGS.evidenceUpload)
+          break
+        }
+
+        await withStore(STORES.uploadQueue, "readwrite", (store) => store.delete(item.id))
+        this.update(item.uploadId, (progress) =>
+          item.kind === "chunk"
+            ? { ...progress, uploaded: progress.uploaded + 1, pending: Math.max(0, progress.pending - 1), lastError: null }
+            : { ...progress, complete: true, lastError: null }
+        )
+      }
+    } catch (error) {
+      console.error("Error processing evidence upload queue:", error)
+    } finally {
+      this.running = false
+    }
+
+    // Something was queued while the last pass was finishing up
+    if (this.flushRequested && this.retryTimer === null) {
+      this.flush()
+    }
+  }
+
+  private async enqueue(fields: Omit<QueuedItem, "id" | "attempts" | "createdAt">) {
+    const item: QueuedItem = {
+      ...fields,
+      id: queueKey(fields.uploadId, fields.seq),
+      attempts: 0,
+      createdAt: Date.now(),
+    }
+    await withStore(STORES.uploadQueue, "readwrite", (store) => store.put(item))
+    if (item.kind === "chunk") {
+      this.update(item.uploadId, (progress) => ({ ...progress, pending: progress.pending + 1 }))
+    }
+    // Lets the service worker finish the upload if the tab is gone by the time the network is back
+    if (!navigator.onLine) {
+      requestBackgroundSync(SYNC_TAGS.evidenceUpload)
+    }
+    this.flush()
+  }
+
+  private update(uploadId: string, change: (progress: UploadProgress) => UploadProgress) {
+    const current = this.progress.get(uploadId) ?? {
+      uploaded: 0,
+      pending: 0,
+      lastError: null,
+      rejected: false,
+      complete: false,
+    }
+    this.progress.set(uploadId, change(current))
+    this.listeners.forEach((listener) => listener())
+  }
+
+  private scheduleRetry(delay: number) {
+    this.clearRetry()
+    this.retryTimer = window.setTimeout(() => this.flush(), delay)
+  }
+
+  private clearRetry() {
+    if (this.retryTimer !== null) {
+      window.clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+  }
+}
+
+export const evidenceUploader = new EvidenceUploader()
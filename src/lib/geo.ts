@@ -0,0 +1,48 @@
+export interface LatLng {
+  lat: number
+  lng: number
+}
+
+export interface LocationFix extends LatLng {
+  /** Radius of uncertainty in metres */
+  accuracy: number | null
+  /** Metres per second, null when the device can't tell */
+  speed: number | null
+  /** Degrees clockwise from true north, null when stationary or unknown */
+  heading: number | null
+  at: number
+}
+
+const EARTH_RADIUS_M = 6_371_000
+
+export function distanceInMeters(a: LatLng, b: LatLng) {
+  const toRad = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRad(b.lat - a.lat)
+  const dLng = toRad(b.lng - a.lng)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h))
+}
+
+export function fromPosition(position: GeolocationPosition): LocationFix {
+  const { latitude, longitude, accuracy, speed, heading } = position.coords
+  return {
+    lat: latitude,
+    lng: longitude,
+    accuracy: accuracy ?? null,
+    speed: speed ?? null,
+    heading: heading === null || Number.isNaN(heading) ? null : heading,
+    at: position.timestamp,
+  }
+}
+
+export function mapsLink(location: LatLng) {
+  return `https://maps.google.com/?q=${location.lat},${location.lng}`
+}
+
+const COMPASS_POINTS = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"]
+
+export function compassDirection(heading: number) {
+  return COMPASS_POINTS[Math.round(heading / 45) % COMPASS_POINTS.length]
+}
@@ -0,0 +1,142 @@
+import { STORES, openDatabase, requestToPromise, withStore } from "@/lib/db"
+import { ProtocolLogEntry, ProtocolPhase } from "@/lib/emergency-engine"
+import type { EvidenceKind } from "@/lib/recordings"
+
+export type TriggerSource =
+  | "button"
+  | "long-press"
+  | "tap-pattern"
+  | "voice"
+  | "keys"
+  | "shake"
+  | "sound"
+  | "shortcut"
+  | "link"
+
+export const TRIGGER_SOURCE_LABELS: Record<TriggerSource, string> = {
+  "button": "Button",
+  "long-press": "Long press",
+  "tap-pattern": "Tap pattern",
+  "voice": "Voice",
+  "keys": "Key presses",
+  "shake": "Shake",
+  "sound": "Distress sound",
+  "shortcut": "Shortcut",
+  "link": "Link",
+}
+
+export interface IncidentLocation {
+  lat: number
+  lng: number
+  accuracy?: number | null
+  speed?: number | null
+  heading?: number | null
+  at: number
+}
+
+export interface IncidentRecording {
+  /** Key of the blob in the recordings store */
+  id: string
+  kind?: EvidenceKind
+  filename: string
+  mimeType: string
+  duration: number
+  savedAt: number
+}
+
+export interface IncidentRecord {
+  id: string
+  triggerSource: TriggerSource
+  startedAt: number
+  /** When the user closed the protocol, null while it is still running */
+  endedAt: number | null
+  outcome: ProtocolPhase
+  /** Snapshot of the escalation order, so history survives contact edits */
+  contacts: { id: string; name: string; phone: string }[]
+  events: ProtocolLogEntry[]
+  locations: IncidentLocation[]
+  recording: IncidentRecording | null
+  /** Stills taken in photo evidence mode; missing on older incidents */
+  photos?: IncidentRecording[]
+}
+
+export function createIncident(
+  fields: Pick<IncidentRecord, "id" | "triggerSource" | "contacts">
+): IncidentRecord {
+  return {
+    ...fields,
+    startedAt: Date.now(),
+    endedAt: null,
+    outcome: "idle",
+    events: [],
+    locations: [],
+    recording: null,
+    photos: [],
+  }
+}
+
+export function saveIncident(record: IncidentRecord) {
+  return withStore(STORES.incidents, "readwrite", (store) => store.put(record))
+}
+
+export function getIncident(id: string) {
+  return withStore<IncidentRecord | undefined>(STORES.incidents, "readonly", (store) => store.get(id))
+}
+
+export async function listIncidents(): Promise<IncidentRecord[]> {
+  const incidents = await withStore<IncidentRecord[]>(STORES.incidents, "readonly", (store) =>
+    store.index("startedAt").getAll()
+  )
+  return incidents.reverse()
+}
+
+export function deleteIncident(id: string) {
+  return withStore(STORES.incidents, "readwrite", (store) => store.delete(id))
+}
+
+// Read and write in one transaction so updates arriving from different
+// places (engine, recorder) never overwrite each other.
+export async function updateIncident(
+  id: string,
+  update: (record: IncidentRecord) => IncidentRecord
+): Promise<IncidentRecord | undefined> {
+  const db = await openDatabase()
+  const transaction = db.transaction(STORES.incidents, "readwrite")
+  const store = transaction.objectStore(STORES.incidents)
+  const record = await requestToPromise<IncidentRecord | undefined>(store.get(id))
+
+  if (!record) return undefined
+
+  const updated = update(record)
+  await requestToPromise(store.put(updated))
+  return updated
+}
+
+/** Contacts the protocol actually tried to reach, in the order it tried them */
+export function getContactsAttempted(record: IncidentRecord) {
+  return record.events
+    .filter((event) => event.type === "contact-alerted")
+    .map((event) => record.contacts.find((contact) => contact.id === event.contactId))
+    .filter(Boolean)
+}
+
+/**
+ * The incident as the history screen shows it. One "cancelled" with the
+ * duress PIN ends there as an ordinary cancel, so whoever forced it can't
+ * find out otherwise by looking back through the phone.
+ */
+export function asShownInHistory(record: IncidentRecord): IncidentRecord {
+  const duress = record.events.find((event) => event.type === "duress")
+  if (!duress) return record
+
+  return {
+    ...record,
+    endedAt: duress.at,
+    outcome: "cancelled",
+    events: [
+      ...record.events.filter((event) => event.at < duress.at),
+      { type: "cancelled", at: duress.at },
+    ],
+    locations: record.locations.filter((location) => location.at <= duress.at),
+  }
+}
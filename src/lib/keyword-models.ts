@@ -0,0 +1,77 @@
+import { STORES, withStore } from "@/lib/db"
+import { TriggerPhrase } from "@/lib/settings"
+import { createFeatureExtractor, enrolmentThreshold, trimSilence } from "@/lib/keyword-spotting"
+
+/** What the on-device keyword spotter knows about one trigger phrase */
+export interface KeywordModel {
+  /** `${lang}:${phrase}`, so re-recording a phrase replaces it */
+  id: string
+  phrase: string
+  lang: string
+  /** Feature frames of each enrolment take, trimmed to the speech */
+  templates: Float32Array[][]
+  /** Largest distance from the templates that still counts as the phrase */
+  threshold: number
+  createdAt: number
+}
+
+export const ENROLMENT_TAKES = 3
+
+/** Seconds of audio each enrolment take records */
+export const ENROLMENT_TAKE_SECONDS = 2.5
+
+// Shorter than this and it was a cough, not a phrase
+const MIN_SPEECH_FRAMES = 20
+
+type Listener = () => void
+
+const listeners = new Set<Listener>()
+
+const notify = () => listeners.forEach((listener) => listener())
+
+export const keywordModelId = (phrase: string, lang: string) => `${lang}:${phrase.trim().toLowerCase()}`
+
+export function subscribeToKeywordModels(listener: Listener) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function listKeywordModels() {
+  return withStore<KeywordModel[]>(STORES.keywordModels, "readonly", (store) => store.getAll())
+}
+
+export async function deleteKeywordModel(id: string) {
+  await withStore(STORES.keywordModels, "readwrite", (store) => store.delete(id))
+  notify()
+}
+
+/**
+ * Builds and stores a model from enrolment takes of a phrase. Throws when
+ * a take has too little speech in it to learn from.
+ */
+export async function enrolKeyword(
+  fields: Pick<TriggerPhrase, "phrase" | "lang">,
+  takes: { samples: Float32Array; sampleRate: number }[]
+): Promise<KeywordModel> {
+  const templates = takes.map(({ samples, sampleRate }) => {
+    const frames = trimSilence(createFeatureExtractor(sampleRate).push(samples))
+    if (frames.length < MIN_SPEECH_FRAMES) {
+      throw new Error("Couldn't hear the phrase in one of the takes. Try again closer to the microphone.")
+    }
+    return frames.map((frame) => frame.coefficients)
+  })
+
+  const model: KeywordModel = {
+    id: keywordModelId(fields.phrase, fields.lang),
+    phrase: fields.phrase.trim().toLowerCase(),
+    lang: fields.lang,
+    templates,
+    threshold: enrolmentThreshold(templates),
+    createdAt: Date.now(),
+  }
+  await withStore(STORES.keywordModels, "readwrite", (store) => store.put(model))
+  notify()
+  return model
+}
@@ -0,0 +1,261 @@
+/**
+ * On-device keyword spotting by template matching: the user records each
+ * trigger phrase a few times, the recordings are turned into MFCC frames
+ * (a compact description of how speech sounds over time), and live audio
+ * is compared against them with dynamic time warping, which lets a phrase
+ * said faster or slower still line up. No model or network is involved,
+ * so it works wherever the microphone does, but only for the voice and
+ * phrases that were recorded.
+ *
+ * Runs in src/workers/keyword-spotter.worker.ts for live audio; enrolment
+ * calls it on the main thread.
+ */
+
+export const FEATURE_SAMPLE_RATE = 16000
+
+const FRAME_LENGTH = 400 // 25 ms
+const FRAME_STEP = 160 // 10 ms
+const FFT_SIZE = 512
+const MEL_BANDS = 26
+// c0 follows loudness rather than what was said, so it's kept apart as the frame energy
+const CEPSTRAL_COEFFICIENTS = 12
+
+// Bands more than about 20 dB (natural log units) below a frame's strongest
+// are raised to that level, so background noise filling the quiet bands
+// doesn't count as a difference in what was said
+const BAND_FLOOR = 4.5
+
+/** How far below a clip's loudest frame a frame can be and still count as speech, in dB */
+const SPEECH_RANGE_DB = 30
+
+/** Templates are compared in frames, 100 per second */
+export const FRAMES_PER_SECOND = FEATURE_SAMPLE_RATE / FRAME_STEP
+
+export interface FeatureFrame {
+  coefficients: Float32Array
+  /** Frame loudness in dB */
+  energy: number
+}
+
+const melFromHz = (hz: number) => 2595 * Math.log10(1 + hz / 700)
+const hzFromMel = (mel: number) => 700 * (10 ** (mel / 2595) - 1)
+
+function buildMelFilters() {
+  const bins = FFT_SIZE / 2 + 1
+  const lowMel = melFromHz(80)
+  const highMel = melFromHz(FEATURE_SAMPLE_RATE / 2)
+  const edges = Array.from({ length: MEL_BANDS + 2 }, (_, index) =>
+    Math.floor(((FFT_SIZE + 1) * hzFromMel(lowMel + ((highMel - lowMel) * index) / (MEL_BANDS + 1))) / FEATURE_SAMPLE_RATE)
+  )
+  return Array.from({ length: MEL_BANDS }, (_, band) => {
+    const filter = new Float32Array(bins)
+    const [start, peak, end] = [edges[band], edges[band + 1], edges[band + 2]]
+    for (let bin = start; bin < peak; bin++) filter[bin] = (bin - start) / Math.max(1, peak - start)
+    for (let bin = peak; bin < end; bin++) filter[bin] = (end - bin) / Math.max(1, end - peak)
+    return filter
+  })
+}
+
+const MEL_FILTERS = buildMelFilters()
+
+const HAMMING = Float32Array.from({ length: FRAME_LENGTH }, (_, index) =>
+  0.54 - 0.46 * Math.cos((2 * Math.PI * index) / (FRAME_LENGTH - 1))
+)
+
+const DCT = Array.from({ length: CEPSTRAL_COEFFICIENTS }, (_, row) =>
+  Float32Array.from({ length: MEL_BANDS }, (_, band) => Math.cos((Math.PI * (row + 1) * (band + 0.5)) / MEL_BANDS))
+)
+
+// In-place radix-2 FFT
+function fft(real: Float32Array, imaginary: Float32Array) {
+  const size = real.length
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      ;[real[i], real[j]] = [real[j], real[i]]
+      ;[imaginary[i], imaginary[j]] = [imaginary[j], imaginary[i]]
+    }
+  }
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length
+    for (let start = 0; start < size; start += length) {
+      for (let k = 0; k < length / 2; k++) {
+        const cos = Math.cos(angle * k)
+        const sin = Math.sin(angle * k)
+        const a = start + k
+        const b = a + length / 2
+        const tr = real[b] * cos - imaginary[b] * sin
+        const ti = real[b] * sin + imaginary[b] * cos
+        real[b] = real[a] - tr
+        imaginary[b] = imaginary[a] - ti
+        real[a] += tr
+        imaginary[a] += ti
+      }
+    }
+  }
+}
+
+function frameFeatures(samples: Float32Array): FeatureFrame {
+  const real = new Float32Array(FFT_SIZE)
+  const imaginary = new Float32Array(FFT_SIZE)
+  let power = 0
+  for (let index = 0; index < FRAME_LENGTH; index++) {
+    // Pre-emphasis lifts the high frequencies consonants live in
+    const value = samples[index] - 0.97 * (index > 0 ? samples[index - 1] : 0)
+    real[index] = value * HAMMING[index]
+    power += samples[index] * samples[index]
+  }
+  fft(real, imaginary)
+
+  const logMel = MEL_FILTERS.map((filter) => {
+    let sum = 0
+    for (let bin = 0; bin < filter.length; bin++) {
+      if (filter[bin] > 0) sum += filter[bin] * (real[bin] * real[bin] + imaginary[bin] * imaginary[bin])
+    }
+    return Math.log(sum + 1e-10)
+  })
+
+  const strongest = Math.max(...logMel)
+  const floored = logMel.map((value) => Math.max(value, strongest - BAND_FLOOR))
+
+  const coefficients = new Float32Array(CEPSTRAL_COEFFICIENTS)
+  DCT.forEach((row, index) => {
+    coefficients[index] = row.reduce((sum, weight, band) => sum + weight * floored[band], 0)
+  })
+
+  return { coefficients, energy: 10 * Math.log10(power / FRAME_LENGTH + 1e-10) }
+}
+
+/**
+ * Turns audio at any sample rate into feature frames, a chunk at a time.
+ * Audio is resampled to 16 kHz first, which is all speech needs.
+ */
+export function createFeatureExtractor(sampleRate: number) {
+  const ratio = sampleRate / FEATURE_SAMPLE_RATE
+  let pending = new Float32Array(0)
+  // Position in the input of the next output sample, carried across chunks
+  let position = 0
+
+  return {
+    push(chunk: Float32Array): FeatureFrame[] {
+      const resampled: number[] = []
+      for (; position < chunk.length; position += ratio) {
+        // Averaging the input samples each output one covers keeps aliasing down
+        const from = Math.floor(position)
+        const to = Math.min(chunk.length, Math.max(from + 1, Math.floor(position + ratio)))
+        let sum = 0
+        for (let index = from; index < to; index++) sum += chunk[index]
+        resampled.push(sum / (to - from))
+      }
+      position -= chunk.length
+
+      const buffer = new Float32Array(pending.length + resampled.length)
+      buffer.set(pending)
+      buffer.set(resampled, pending.length)
+
+      const frames: FeatureFrame[] = []
+      let start = 0
+      for (; start + FRAME_LENGTH <= buffer.length; start += FRAME_STEP) {
+        frames.push(frameFeatures(buffer.subarray(start, start + FRAME_LENGTH)))
+      }
+      pending = buffer.slice(start)
+      return frames
+    },
+  }
+}
+
+/** The frames of a clip from the first to the last one loud enough to be speech */
+export function trimSilence(frames: FeatureFrame[]) {
+  if (frames.length === 0) return frames
+  const loudest = Math.max(...frames.map((frame) => frame.energy))
+  const isSpeech = (frame: FeatureFrame) => frame.energy >= loudest - SPEECH_RANGE_DB
+  const first = frames.findIndex(isSpeech)
+  let last = frames.length - 1
+  while (last > first && !isSpeech(frames[last])) last--
+  return frames.slice(first, last + 1)
+}
+
+function frameDistance(a: Float32Array, b: Float32Array) {
+  let sum = 0
+  for (let index = 0; index < a.length; index++) {
+    const difference = a[index] - b[index]
+    sum += difference * difference
+  }
+  return Math.sqrt(sum)
+}
+
+/**
+ * Average per-step distance of the best alignment of `template` with the
+ * audio. With `anywhere` the template may line up with any stretch of
+ * `audio` between half and twice its length, as when searching live
+ * audio; without, the two are aligned end to end, as when comparing
+ * recordings of the same phrase.
+ */
+export function alignmentDistance(template: Float32Array[], audio: Float32Array[], anywhere = false) {
+  const rows = template.length
+  const columns = audio.length
+  if (rows === 0 || columns === 0) return Infinity
+
+  // Two rows at a time of cost, path length and the column the path
+  // started in; the full table would be rows × columns
+  let previous = { cost: new Float64Array(columns), length: new Float64Array(columns), start: new Int32Array(columns) }
+  let current = { cost: new Float64Array(columns), length: new Float64Array(columns), start: new Int32Array(columns) }
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const distance = frameDistance(template[row], audio[column])
+      if (row === 0) {
+        const fresh = anywhere || column === 0
+        current.cost[column] = fresh ? distance : current.cost[column - 1] + distance
+        current.length[column] = fresh ? 1 : current.length[column - 1] + 1
+        current.start[column] = fresh ? column : 0
+        continue
+      }
+
+      // Predecessors are compared by average cost, since paths differ in length
+      let from = previous
+      let at = column
+      if (column > 0 && previous.cost[column - 1] / previous.length[column - 1] <= from.cost[at] / from.length[at]) {
+        at = column - 1
+      }
+      if (column > 0 && current.cost[column - 1] / current.length[column - 1] < from.cost[at] / from.length[at]) {
+        from = current
+        at = column - 1
+      }
+      current.cost[column] = from.cost[at] + distance
+      current.length[column] = from.length[at] + 1
+      current.start[column] = from.start[at]
+    }
+    ;[previous, current] = [current, previous]
+  }
+
+  if (!anywhere) return previous.cost[columns - 1] / previous.length[columns - 1]
+
+  let best = Infinity
+  for (let column = 0; column < columns; column++) {
+    const span = column - previous.start[column] + 1
+    if (span >= rows / 2 && span <= rows * 2) {
+      best = Math.min(best, previous.cost[column] / previous.length[column])
+    }
+  }
+  return best
+}
+
+/** Allowance over the furthest two enrolment takes are from each other */
+const DISTANCE_MARGIN = 1.5
+
+/**
+ * Works out from a phrase's enrolment takes how far live audio may be from
+ * them and still count: a phrase said consistently gets a strict limit.
+ */
+export function enrolmentThreshold(templates: Float32Array[][]) {
+  let furthest = 0
+  for (let i = 0; i < templates.length; i++) {
+    for (let j = i + 1; j < templates.length; j++) {
+      furthest = Math.max(furthest, alignmentDistance(templates[i], templates[j]))
+    }
+  }
+  return furthest * DISTANCE_MARGIN
+}
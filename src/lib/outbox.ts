@@ -0,0 +1,129 @@
+import { STORES, openDatabase, withStore } from "@/lib/db"
+
+/** Background Sync tags; public/sw.js replays the matching queue for each */
+export const SYNC_TAGS = {
+  outbox: "outbox",
+  evidenceUpload: "evidence-upload",
+} as const
+
+/**
+ * A request that could not be sent because the network was down. Stored
+ * ready to replay so the service worker can send it without any app code.
+ */
+export interface OutboxRequest {
+  /** Timestamp-prefixed so keys sort in the order requests were made */
+  id: string
+  url: string
+  method: string
+  headers: Record<string, string>
+  body: string
+  attempts: number
+  createdAt: number
+  /** Set while a page or the service worker is sending it */
+  claimedUntil?: number | null
+}
+
+// How long a sender owns an item before others assume it died mid-send;
+// public/sw.js uses the same
+const CLAIM_MS = 60_000
+
+const canBackgroundSync = () =>
+  typeof navigator !== "undefined" && "serviceWorker" in navigator && typeof SyncManager !== "undefined"
+
+/**
+ * Asks the service worker to run the queue behind `tag` once connectivity
+ * returns, even if this tab has been closed by then. Returns false where
+ * Background Sync isn't available and the page has to retry by itself.
+ */
+export async function requestBackgroundSync(tag: string) {
+  if (!canBackgroundSync()) return false
+  try {
+    // `ready` never settles when no worker is registered, as in development
+    const registration = await navigator.serviceWorker.getRegistration()
+    if (!registration?.active) return false
+    await registration.sync.register(tag)
+    return true
+  } catch (error) {
+    console.error("Error registering background sync:", error)
+    return false
+  }
+}
+
+export async function enqueueRequest(request: Pick<OutboxRequest, "url" | "method" | "headers" | "body">) {
+  const createdAt = Date.now()
+  const item: OutboxRequest = {
+    ...request,
+    id: `${createdAt.toString().padStart(15, "0")}:${crypto.randomUUID()}`,
+    attempts: 0,
+    createdAt,
+  }
+  await withStore(STORES.outbox, "readwrite", (store) => store.put(item))
+  await requestBackgroundSync(SYNC_TAGS.outbox)
+}
+
+/**
+ * Takes the oldest queued request and marks it as being sent, in one
+ * transaction, so the service worker's replay never sends it as well.
+ * Resolves undefined when the queue is empty or its oldest request is
+ * already being sent elsewhere; requests go out in order, so that one has
+ * to finish first.
+ */
+async function claimNext() {
+  const db = await openDatabase()
+  return new Promise<OutboxRequest | undefined>((resolve, reject) => {
+    const transaction = db.transaction(STORES.outbox, "readwrite")
+    const request = transaction.objectStore(STORES.outbox).openCursor()
+    let claimed: OutboxRequest | undefined
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor || (cursor.value.claimedUntil ?? 0) > Date.now()) return
+      claimed = { ...cursor.value, claimedUntil: Date.now() + CLAIM_MS }
+      cursor.update(claimed)
+    }
+    transaction.oncomplete = () => resolve(claimed)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+let flushing = false
+
+/** Sends queued requests in order, stopping at the first one that fails */
+export async function flushOutbox() {
+  if (flushing || !navigator.onLine) return
+  flushing = true
+
+  try {
+    for (;;) {
+      const item = await claimNext()
+      if (!item) break
+
+      try {
+        const response = await fetch(item.url, { method: item.method, headers: item.headers, body: item.body })
+        if (!response.ok && response.status >= 500) {
+          throw new Error(`HTTP ${response.status}`)
+        }
+      } catch (error) {
+        await withStore(STORES.outbox, "readwrite", (store) =>
+          store.put({ ...item, attempts: item.attempts + 1, claimedUntil: null })
+        )
+        requestBackgroundSync(SYNC_TAGS.outbox)
+        break
+      }
+
+      // A 4xx will not get better by retrying, so it leaves the queue too
+      await withStore(STORES.outbox, "readwrite", (store) => store.delete(item.id))
+    }
+  } catch (error) {
+    console.error("Error processing outbox:", error)
+  } finally {
+    flushing = false
+  }
+}
+
+// Without Background Sync, or without a service worker to run it, the queue
+// only gets another chance while a tab is open. Claims keep this from
+// doubling up with the worker where both run.
+if (typeof window !== "undefined") {
+  window.addEventListener("online", () => flushOutbox())
+}
@@ -0,0 +1,53 @@
+import {
+  CountryCode,
+  getCountries,
+  getCountryCallingCode,
+  isSupportedCountry,
+  parsePhoneNumberFromString,
+} from "libphonenumber-js"
+
+export type { CountryCode }
+
+const FALLBACK_COUNTRY: CountryCode = "US"
+
+/** The region named in the browser's language settings, if any */
+export function getLocaleCountry(): CountryCode | null {
+  const languages = typeof navigator === "undefined" ? [] : navigator.languages ?? [navigator.language]
+  for (const language of languages) {
+    const region = /-([A-Za-z]{2})(?:-|$)/.exec(language)?.[1]?.toUpperCase()
+    if (region && isSupportedCountry(region)) return region
+  }
+  return null
+}
+
+/** The country whose numbering plan applies to numbers typed without a + prefix */
+export function getDefaultCountry(): CountryCode {
+  return getLocaleCountry() ?? FALLBACK_COUNTRY
+}
+
+const regionNames = typeof Intl.DisplayNames === "function" ? new Intl.DisplayNames(undefined, { type: "region" }) : null
+
+export function listCountries() {
+  return getCountries()
+    .map((code) => ({
+      code,
+      name: regionNames?.of(code) ?? code,
+      callingCode: getCountryCallingCode(code),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/** Returns the number in E.164 form, or null when it isn't a real number */
+export function normalizePhone(input: string, country: CountryCode = getDefaultCountry()) {
+  const parsed = parsePhoneNumberFromString(input, country)
+  return parsed?.isValid() ? parsed.number : null
+}
+
+export function isDialable(number: string) {
+  return normalizePhone(number) !== null
+}
+
+/** Pretty-prints a stored number, leaving anything unparseable untouched */
+export function formatPhone(number: string) {
+  return parsePhoneNumberFromString(number, getDefaultCountry())?.formatInternational() ?? number
+}
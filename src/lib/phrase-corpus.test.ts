@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest"
+
+import { evaluateCorpus } from "@/lib/phrase-corpus"
+
+describe("evaluateCorpus", () => {
+  it("gets every transcript in the corpus right", () => {
+    const misses = evaluateCorpus().map(({ entry, matched }) => ({
+      heard: entry.candidates.map((candidate) => candidate.text),
+      expected: entry.expected,
+      matched,
+    }))
+    expect(misses).toEqual([])
+  })
+})
@@ -0,0 +1,82 @@
+import { PHRASE_PACKS } from "@/lib/phrase-packs"
+import { DEFAULT_CONFIDENCE_THRESHOLD, TranscriptCandidate, matchTriggerPhrase } from "@/lib/phrase-matcher"
+
+/**
+ * Transcripts as speech recognition has produced them, each labelled with
+ * the default English trigger phrase it should set off, or null when it must not.
+ * Add to this whenever a real false alarm or a missed trigger turns up;
+ * phrase-corpus.test.ts fails on any entry the matcher gets wrong.
+ */
+export interface CorpusEntry {
+  candidates: TranscriptCandidate[]
+  expected: string | null
+  note?: string
+}
+
+const heard = (text: string, confidence: number | null = 0.9, isFinal = true): TranscriptCandidate => ({
+  text,
+  confidence,
+  isFinal,
+})
+
+export const TRANSCRIPT_CORPUS: CorpusEntry[] = [
+  // Said plainly
+  { candidates: [heard("help me")], expected: "help me" },
+  { candidates: [heard("somebody help me please")], expected: "help me" },
+  { candidates: [heard("emergency")], expected: "emergency" },
+  { candidates: [heard("this is an emergency")], expected: "emergency" },
+  { candidates: [heard("call help now")], expected: "call help" },
+  { candidates: [heard("i need help")], expected: "i need help" },
+  { candidates: [heard("I NEED HELP!")], expected: "i need help", note: "case and punctuation" },
+
+  // Misheard or broken up
+  { candidates: [heard("hell me")], expected: "help me", note: "dropped consonant" },
+  { candidates: [heard("help. me")], expected: "help me", note: "split across results" },
+  { candidates: [heard("help um me")], expected: "help me", note: "filler word" },
+  { candidates: [heard("emergancy")], expected: "emergency", note: "misspelt" },
+  { candidates: [heard("i kneed help")], expected: "i need help", note: "homophone" },
+  { candidates: [heard("cole help")], expected: "call help", note: "vowel confusion" },
+  {
+    candidates: [heard("yelp me", 0.7), heard("help me", 0.65)],
+    expected: "help me",
+    note: "right words only in an alternative",
+  },
+
+  // Must not trigger
+  { candidates: [heard("she helped me move")], expected: null, note: "inflection" },
+  { candidates: [heard("that was helpful")], expected: null },
+  { candidates: [heard("we went to the emergency room")], expected: null, note: "compound" },
+  { candidates: [heard("follow the emergency exit signs")], expected: null },
+  { candidates: [heard("call the help desk")], expected: null },
+  { candidates: [heard("hello there")], expected: null },
+  { candidates: [heard("i need to go")], expected: null },
+  { candidates: [heard("kelp tea")], expected: null },
+  { candidates: [heard("help him")], expected: null, note: "different person" },
+  { candidates: [heard("held me")], expected: null, note: "one consonant off" },
+  { candidates: [heard("kelp me")], expected: null, note: "one consonant off" },
+  { candidates: [heard("helm me")], expected: null, note: "one consonant off" },
+  { candidates: [heard("emergencies")], expected: null, note: "inflection" },
+  { candidates: [heard("i need hell")], expected: null, note: "dropped consonant with nothing after it" },
+  { candidates: [heard("help me", 0.3)], expected: null, note: "recogniser unsure" },
+  {
+    candidates: [heard("we went to the emergency", null, false)],
+    expected: null,
+    note: "interim; the next word may be room",
+  },
+]
+
+export interface CorpusMiss {
+  entry: CorpusEntry
+  matched: string | null
+}
+
+/** Runs the matcher over the corpus and returns every entry it gets wrong */
+export function evaluateCorpus(
+  phrases = PHRASE_PACKS["en-US"].phrases,
+  threshold = DEFAULT_CONFIDENCE_THRESHOLD
+): CorpusMiss[] {
+  return TRANSCRIPT_CORPUS.flatMap((entry) => {
+    const matched = matchTriggerPhrase(entry.candidates, phrases, threshold)?.phrase ?? null
+    return matched === entry.expected ? [] : [{ entry, matched }]
+  })
+}
@@ -0,0 +1,284 @@
+/**
+ * Decides whether what speech recognition heard is one of the trigger
+ * phrases. Recognition output is noisy, so words are compared by sound
+ * and then spelling, but only as whole words: "hell me" can still mean
+ * "help me", while "helped me", "kelp me" and "emergency room" mean
+ * something else.
+ *
+ * Tuned against the transcripts in phrase-corpus.ts.
+ */
+
+/** One way of reading what was said, with the recogniser's confidence in it */
+export interface TranscriptCandidate {
+  text: string
+  /** 0–1, or null when the recogniser didn't say (Chrome reports 0 for interim results) */
+  confidence: number | null
+  /** Whether the recogniser may still revise the end of this text */
+  isFinal: boolean
+}
+
+export interface PhraseMatch {
+  phrase: string
+  /** The words in the transcript that matched */
+  heard: string
+  /** How closely the words match the phrase, 0–1 */
+  similarity: number
+  /** similarity × confidence; compared against the threshold */
+  score: number
+}
+
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.6
+
+// Below this a single word sinks the whole phrase, however well the rest match
+const MIN_WORD_SIMILARITY = 0.65
+
+// Hesitations recognisers write out; "help, um, me" is still "help me"
+const FILLERS = new Set(["uh", "um", "er", "erm", "ah", "oh", "like"])
+
+// Endings that turn a trigger word into a different word rather than a
+// misheard one: "helped", "helping", "helpful"
+const INFLECTIONS = ["s", "es", "ed", "d", "ing", "er", "ers", "ful", "less", "y"]
+
+// Words that, straight after a trigger word, make it part of something
+// ordinary. Only checked for the last word of a phrase.
+const BENIGN_FOLLOWERS: Record<string, string[]> = {
+  emergency: [
+    "room", "rooms", "exit", "exits", "brake", "contact", "contacts", "kit", "number",
+    "department", "vehicle", "landing", "fund", "meeting", "plan", "drill", "alert", "broadcast",
+  ],
+  help: ["desk", "line", "center", "centre", "page", "file", "menu", "wanted", "button"],
+}
+
+// Accents are dropped, since recognisers are inconsistent about them
+// ("ayúdame" and "ayudame"), but letters of any script are kept
+export function normalizeWords(text: string) {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[’']/g, "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word !== "" && !FILLERS.has(word))
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+const similarity = (a: string, b: string) =>
+  a === b ? 1 : 1 - editDistance(a, b) / Math.max(a.length, b.length, 1)
+
+const CONSONANT_CLASSES: Record<string, string> = {
+  b: "p", p: "p",
+  c: "k", g: "k", j: "k", k: "k", q: "k", x: "k",
+  d: "t", t: "t",
+  f: "f", v: "f",
+  s: "s", z: "s",
+  l: "l", r: "r", m: "m", n: "n",
+}
+
+/**
+ * A rough sound-alike key: letters that recognisers confuse share a class
+ * and vowels are dropped after the first letter, so "hell" and "help"
+ * differ by one step and "emergency" and "emergancy" not at all.
+ */
+export function phoneticKey(word: string) {
+  const spelled = word
+    .replace(/^kn/, "n")
+    .replace(/^wr/, "r")
+    .replace(/ph/g, "f")
+    .replace(/c(?=[eiy])/g, "s")
+    .replace(/gh/g, "")
+  let key = /^[aeiouy]/.test(spelled) ? "a" : ""
+  for (const letter of spelled) {
+    const mapped = CONSONANT_CLASSES[letter]
+    if (mapped && key[key.length - 1] !== mapped) key += mapped
+  }
+  return key || spelled
+}
+
+// "emergency" becomes "emergencies" rather than "emergencys"
+const isInflectionOf = (heard: string, target: string) =>
+  (heard.startsWith(target) && INFLECTIONS.includes(heard.slice(target.length))) ||
+  (target.endsWith("y") && ["ies", "ied"].some((ending) => heard === target.slice(0, -1) + ending))
+
+// Whether `heard` sounds like `target` with consonants left out
+function dropsConsonants(heardKey: string, targetKey: string) {
+  if (heardKey.length >= targetKey.length) return false
+  let matched = 0
+  for (const letter of targetKey) {
+    if (heardKey[matched] === letter) matched++
+  }
+  return matched === heardKey.length
+}
+
+/**
+ * How alike a heard word is to a word of a phrase, 0–1. Words that sound
+ * different don't count however close the spelling ("kelp", "helm" and
+ * "held" aren't "help"). A consonant lost running into the next word is
+ * forgiven, as "help me" heard as "hell me", but not at the end of the
+ * phrase: "i need hell" is just as likely what was said. `runsOn` is
+ * whether another word of the phrase follows.
+ */
+export function wordSimilarity(heard: string, target: string, runsOn = false) {
+  if (heard === target) return 1
+  if (isInflectionOf(heard, target)) return 0
+
+  const heardKey = phoneticKey(heard)
+  const targetKey = phoneticKey(target)
+  // A key of one letter is shared by too many words: "him" and "me"
+  if (heardKey === targetKey && targetKey.length > 1) return 1
+  if (heardKey === targetKey || (runsOn && dropsConsonants(heardKey, targetKey))) {
+    return similarity(heard, target)
+  }
+  return 0
+}
+
+// Similarity of the phrase to the words starting at `start`, or null when
+// they can't be it
+function scoreWindow(words: string[], start: number, phraseWords: string[], isFinal: boolean) {
+  const end = start + phraseWords.length
+  const scores = phraseWords.map((target, index) =>
+    wordSimilarity(words[start + index], target, index < phraseWords.length - 1)
+  )
+  if (scores.some((score) => score < MIN_WORD_SIMILARITY)) return null
+
+  // The next word could still turn "emergency" into "emergency room"
+  const lastWord = phraseWords[phraseWords.length - 1]
+  if (end === words.length && !isFinal && BENIGN_FOLLOWERS[lastWord]) return null
+  if (BENIGN_FOLLOWERS[lastWord]?.includes(words[end])) return null
+
+  return scores.reduce((sum, value) => sum + value, 0) / scores.length
+}
+
+function bestWindow(words: string[], phraseWords: string[], isFinal: boolean) {
+  let best: { similarity: number; start: number } | null = null
+
+  for (let start = 0; start + phraseWords.length <= words.length; start++) {
+    const score = scoreWindow(words, start, phraseWords, isFinal)
+    if (score !== null && (!best || score > best.similarity)) {
+      best = { similarity: score, start }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Finds the best-scoring trigger phrase across every reading of the
+ * transcript, or null when nothing clears the threshold.
+ */
+export function matchTriggerPhrase(
+  candidates: TranscriptCandidate[],
+  phrases: string[],
+  threshold = DEFAULT_CONFIDENCE_THRESHOLD
+): PhraseMatch | null {
+  let best: PhraseMatch | null = null
+
+  for (const candidate of candidates) {
+    const words = normalizeWords(candidate.text)
+    const confidence = candidate.confidence || 1
+
+    for (const phrase of phrases) {
+      const phraseWords = normalizeWords(phrase)
+      if (phraseWords.length === 0) continue
+
+      const window = bestWindow(words, phraseWords, candidate.isFinal)
+      if (!window) continue
+
+      const score = window.similarity * confidence
+      if (score >= threshold && (!best || score > best.score)) {
+        best = {
+          phrase,
+          heard: words.slice(window.start, window.start + phraseWords.length).join(" "),
+          similarity: window.similarity,
+          score,
+        }
+      }
+    }
+  }
+
+  return best
+}
+
+/**
+ * How many separate times the phrase was said, going by the reading that
+ * heard it most often. Used by rules that want a phrase repeated.
+ */
+export function countPhraseMatches(
+  candidates: TranscriptCandidate[],
+  phrase: string,
+  threshold = DEFAULT_CONFIDENCE_THRESHOLD
+) {
+  const phraseWords = normalizeWords(phrase)
+  if (phraseWords.length === 0) return 0
+
+  return Math.max(
+    0,
+    ...candidates.map((candidate) => {
+      const words = normalizeWords(candidate.text)
+      const confidence = candidate.confidence || 1
+      let count = 0
+      for (let start = 0; start + phraseWords.length <= words.length; start++) {
+        const score = scoreWindow(words, start, phraseWords, candidate.isFinal)
+        if (score !== null && score * confidence >= threshold) {
+          count++
+          start += phraseWords.length - 1
+        }
+      }
+      return count
+    })
+  )
+}
+
+// Only the last few results can hold a phrase still being spoken; trying
+// every alternative further back would multiply readings for nothing
+const ALTERNATIVE_RESULTS = 3
+
+/**
+ * Turns a recognition session's results into readings to match against:
+ * the best guess for the whole session, so a phrase split across results
+ * is still seen whole, plus one reading per alternative of the latest
+ * results. Confidence is that of the least certain result used.
+ */
+export function candidatesFromResults(
+  results: ArrayLike<SpeechRecognitionResult>,
+  maxWords = 12
+): TranscriptCandidate[] {
+  const best = Array.from({ length: results.length }, (_, index) => results[index][0])
+  const isFinal = results.length === 0 || results[results.length - 1].isFinal
+
+  const reading = (alternatives: SpeechRecognitionAlternative[]): TranscriptCandidate => {
+    const known = alternatives.map((alternative) => alternative.confidence).filter((value) => value > 0)
+    return {
+      // Keep to the most recent words so an old phrase doesn't fire twice
+      text: normalizeWords(alternatives.map((alternative) => alternative.transcript).join(" "))
+        .slice(-maxWords)
+        .join(" "),
+      confidence: known.length > 0 ? Math.min(...known) : null,
+      isFinal,
+    }
+  }
+
+  const candidates = [reading(best)]
+  for (let index = Math.max(0, results.length - ALTERNATIVE_RESULTS); index < results.length; index++) {
+    for (let alternative = 1; alternative < results[index].length; alternative++) {
+      const substituted = [...best]
+      substituted[index] = results[index][alternative]
+      candidates.push(reading(substituted))
+    }
+  }
+  return candidates
+}
@@ -0,0 +1,73 @@
+/**
+ * Starter phrases for each language voice triggering can listen in, with
+ * what the spoken "Are you OK?" check says and the replies that cancel it.
+ * Keys are the BCP 47 tags handed to speech recognition.
+ */
+export interface PhrasePack {
+  /** The language's own name for itself */
+  label: string
+  phrases: string[]
+  confirmPrompt: string
+  allClear: string[]
+}
+
+export const PHRASE_PACKS = {
+  "en-US": {
+    label: "English",
+    phrases: ["help me", "emergency", "call help", "i need help"],
+    confirmPrompt: "Are you OK? Say I'm OK to cancel.",
+    allClear: ["i'm ok", "i'm okay", "i'm fine", "i'm alright", "false alarm", "cancel"],
+  },
+  "es-ES": {
+    label: "Español",
+    phrases: ["ayúdame", "socorro", "auxilio", "necesito ayuda"],
+    confirmPrompt: "¿Estás bien? Di estoy bien para cancelar.",
+    allClear: ["estoy bien", "falsa alarma", "cancelar"],
+  },
+  "fr-FR": {
+    label: "Français",
+    phrases: ["aidez-moi", "au secours", "à l'aide", "j'ai besoin d'aide"],
+    confirmPrompt: "Ça va ? Dites je vais bien pour annuler.",
+    allClear: ["je vais bien", "tout va bien", "fausse alerte", "annuler"],
+  },
+  "de-DE": {
+    label: "Deutsch",
+    phrases: ["hilf mir", "hilfe", "notfall", "ich brauche hilfe"],
+    confirmPrompt: "Alles in Ordnung? Sag alles gut zum Abbrechen.",
+    allClear: ["alles gut", "alles in ordnung", "mir geht es gut", "fehlalarm", "abbrechen"],
+  },
+  "it-IT": {
+    label: "Italiano",
+    phrases: ["aiutami", "aiuto", "emergenza", "ho bisogno di aiuto"],
+    confirmPrompt: "Stai bene? Di sto bene per annullare.",
+    allClear: ["sto bene", "tutto bene", "falso allarme", "annulla"],
+  },
+  "pt-BR": {
+    label: "Português",
+    phrases: ["me ajuda", "socorro", "emergência", "preciso de ajuda"],
+    confirmPrompt: "Você está bem? Diga estou bem para cancelar.",
+    allClear: ["estou bem", "tudo bem", "alarme falso", "cancelar"],
+  },
+} satisfies Record<string, PhrasePack>
+
+export type PackLanguage = keyof typeof PHRASE_PACKS
+
+export const DEFAULT_LANGUAGE: PackLanguage = "en-US"
+
+/** "en-GB" recognition can hear phrases written for "en-US" */
+export const sameLanguage = (a: string, b: string) =>
+  a.split("-")[0].toLowerCase() === b.split("-")[0].toLowerCase()
+
+/** The pack for a language, falling back to one for a related language, then English */
+export function getPhrasePack(lang: string): PhrasePack {
+  const exact = PHRASE_PACKS[lang as PackLanguage]
+  if (exact) return exact
+  const related = (Object.keys(PHRASE_PACKS) as PackLanguage[]).find((key) => sameLanguage(key, lang))
+  return PHRASE_PACKS[related ?? DEFAULT_LANGUAGE]
+}
+
+/** The pack closest to the browser's language, for first-time setup */
+export function getLocalePackLanguage(): PackLanguage {
+  const locale = typeof navigator !== "undefined" ? navigator.language : DEFAULT_LANGUAGE
+  return (Object.keys(PHRASE_PACKS) as PackLanguage[]).find((key) => sameLanguage(key, locale)) ?? DEFAULT_LANGUAGE
+}
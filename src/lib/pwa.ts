@@ -0,0 +1,56 @@
+type Listener = () => void
+
+let deferredPrompt: BeforeInstallPromptEvent | null = null
+const listeners = new Set<Listener>()
+
+const notify = () => listeners.forEach((listener) => listener())
+
+// The prompt event can fire before any component is mounted, so it is
+// caught here as soon as the module loads and held until asked for.
+if (typeof window !== "undefined") {
+  window.addEventListener("beforeinstallprompt", (event) => {
+    event.preventDefault()
+    deferredPrompt = event
+    notify()
+  })
+  window.addEventListener("appinstalled", () => {
+    deferredPrompt = null
+    notify()
+  })
+}
+
+export const installPrompt = {
+  subscribe(listener: Listener) {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  },
+
+  canInstall: () => deferredPrompt !== null,
+
+  /** Shows the browser's install dialog; each prompt event can only be used once */
+  async prompt() {
+    const event = deferredPrompt
+    if (!event) return false
+    deferredPrompt = null
+    notify()
+    await event.prompt()
+    const { outcome } = await event.userChoice
+    return outcome === "accepted"
+  },
+}
+
+/**
+ * Registers public/sw.js. Skipped in development, where a cached app shell
+ * would fight with hot reloading.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Service worker registration failed:", error)
+    })
+  })
+}
@@ -0,0 +1,108 @@
+import { STORES, withStore } from "@/lib/db"
+import { updateIncident } from "@/lib/incidents"
+
+export type EvidenceKind = "audio" | "video" | "photo"
+
+export interface RecordingRecord {
+  id: string
+  incidentId: string
+  /** Missing on recordings made before video and photo evidence existed */
+  kind?: EvidenceKind
+  filename: string
+  mimeType: string
+  /** Length in seconds */
+  duration: number
+  size: number
+  createdAt: number
+  blob: Blob
+}
+
+export function buildRecordingFilename(createdAt: number, mimeType: string, kind: EvidenceKind = "audio") {
+  const timestamp = new Date(createdAt).toISOString().replace(/[:.]/g, "-")
+  const extension = mimeType.split("/")[1]?.split(";")[0] || "webm"
+  return `emergency-${kind === "photo" ? "photo" : "recording"}-${timestamp}.${extension}`
+}
+
+export async function saveRecording(
+  fields: Pick<RecordingRecord, "incidentId" | "blob" | "duration"> & { kind?: EvidenceKind }
+): Promise<RecordingRecord> {
+  const createdAt = Date.now()
+  const kind = fields.kind ?? "audio"
+  const mimeType = fields.blob.type || (kind === "photo" ? "image/jpeg" : `${kind}/webm`)
+  const recording: RecordingRecord = {
+    ...fields,
+    kind,
+    id: crypto.randomUUID(),
+    filename: buildRecordingFilename(createdAt, mimeType, kind),
+    mimeType,
+    size: fields.blob.size,
+    createdAt,
+  }
+
+  await withStore(STORES.recordings, "readwrite", (store) => store.put(recording))
+  return recording
+}
+
+export async function listRecordings(): Promise<RecordingRecord[]> {
+  const recordings = await withStore<RecordingRecord[]>(STORES.recordings, "readonly", (store) =>
+    store.index("createdAt").getAll()
+  )
+  return recordings.reverse()
+}
+
+export function getRecording(id: string) {
+  return withStore<RecordingRecord | undefined>(STORES.recordings, "readonly", (store) => store.get(id))
+}
+
+export async function deleteRecording(recording: Pick<RecordingRecord, "id" | "incidentId">) {
+  await withStore(STORES.recordings, "readwrite", (store) => store.delete(recording.id))
+  // Drop the incident's reference so history doesn't point at missing evidence
+  await updateIncident(recording.incidentId, (record) => ({
+    ...record,
+    recording: record.recording?.id === recording.id ? null : record.recording,
+    photos: (record.photos ?? []).filter((photo) => photo.id !== recording.id),
+  }))
+}
+
+export async function deleteRecordingsForIncident(incidentId: string) {
+  const keys = await withStore<IDBValidKey[]>(STORES.recordings, "readonly", (store) =>
+    store.index("incidentId").getAllKeys(incidentId)
+  )
+  await Promise.all(
+    keys.map((key) => withStore(STORES.recordings, "readwrite", (store) => store.delete(key)))
+  )
+}
+
+export interface StorageUsage {
+  usage: number
+  quota: number
+  persisted: boolean
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null
+
+  const [estimate, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted?.() ?? Promise.resolve(false),
+  ])
+  return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0, persisted }
+}
+
+// Ask the browser not to evict evidence when the device runs low on space
+export async function requestPersistentStorage() {
+  if (!navigator.storage?.persist) return false
+  return navigator.storage.persist()
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  const units = ["KB", "MB", "GB"]
+  let value = bytes / 1024
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value.toFixed(1)} ${units[unit]}`
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest"
+
+import { DEFAULT_SETTINGS, Settings, parseSettings, settingsSchema } from "@/lib/settings"
+
+const issuesFor = (changes: Partial<Settings>) => {
+  const result = settingsSchema.safeParse({ ...DEFAULT_SETTINGS, ...changes })
+  return result.success ? [] : result.error.issues.map((issue) => [issue.path[0], issue.message])
+}
+
+describe("settingsSchema", () => {
+  it("accepts the defaults", () => {
+    expect(issuesFor({})).toEqual([])
+  })
+
+  it("refuses a duress PIN without an alert webhook", () => {
+    expect(issuesFor({ cancelPin: "1234", duressPin: "9876" })).toEqual([
+      ["duressPin", "The duress PIN needs an alert webhook URL"],
+    ])
+    expect(issuesFor({ cancelPin: "1234", duressPin: "9876", webhookUrl: "https://example.com/alerts" })).toEqual([])
+  })
+
+  it("refuses a duress PIN without a cancel PIN, or the same as it", () => {
+    const webhookUrl = "https://example.com/alerts"
+    expect(issuesFor({ duressPin: "9876", webhookUrl })).toEqual([["duressPin", "Set a cancel PIN first"]])
+    expect(issuesFor({ cancelPin: "1234", duressPin: "1234", webhookUrl })).toEqual([
+      ["duressPin", "Must differ from the cancel PIN"],
+    ])
+  })
+
+  it("refuses covert mode without an alert webhook", () => {
+    expect(issuesFor({ covertMode: true })).toEqual([["covertMode", "Covert mode needs an alert webhook URL"]])
+  })
+})
+
+describe("parseSettings", () => {
+  it("keeps valid fields and falls back to the default for the rest", () => {
+    const settings = parseSettings({ responseTimeout: 30, cancelCountdown: 99, triggerPhrases: ["help me"] })
+    expect(settings.responseTimeout).toBe(30)
+    expect(settings.cancelCountdown).toBe(DEFAULT_SETTINGS.cancelCountdown)
+    expect(settings.triggerPhrases.map((phrase) => [phrase.phrase, phrase.rule])).toEqual([["help me", "instant"]])
+  })
+})
@@ -0,0 +1,192 @@
+import { z } from "zod"
+import { DEFAULT_LANGUAGE, PHRASE_PACKS, getLocalePackLanguage } from "@/lib/phrase-packs"
+
+export const SETTINGS_STORAGE_KEY = "emergencySettings"
+
+const optionalDialString = z.union([
+  z.literal(""),
+  z.string().trim().regex(/^\+?[0-9*#]{2,15}$/, "Enter digits only, e.g. 112"),
+])
+
+const optionalPin = z.union([z.literal(""), z.string().regex(/^\d{4}$/, "Use exactly 4 digits")])
+
+const optionalUrl = z.union([
+  z.literal(""),
+  z.string().trim().url("Enter a full URL, e.g. https://example.com/alerts"),
+])
+
+const languageTag = z.string().regex(/^[a-z]{2,3}(-[A-Z]{2})?$/, "Use a language tag such as en-US")
+
+const PHRASE_RULE_DEFAULTS = {
+  lang: DEFAULT_LANGUAGE,
+  rule: "instant",
+  repeatCount: 3,
+  repeatWindow: 10,
+  codeWord: "",
+} as const
+
+const triggerPhraseSchema = z
+  .object({
+    phrase: z.string().trim().toLowerCase().min(1, "Trigger phrases cannot be empty"),
+    lang: languageTag,
+    rule: z.enum(["instant", "repeat", "code-word", "confirm"]),
+    repeatCount: z.number().int().min(2).max(5),
+    repeatWindow: z.number().int().min(5).max(60),
+    codeWord: z.string().trim().toLowerCase(),
+  })
+  .refine((phrase) => phrase.rule !== "code-word" || phrase.codeWord !== "", {
+    message: "Enter a code word for every phrase that needs one",
+  })
+
+const settingsFields = z.object({
+  responseTimeout: z.number().int().min(5).max(60),
+  recordingDuration: z.number().int().min(10).max(120),
+  cancelCountdown: z.number().int().min(3).max(10),
+  // Older builds stored bare strings
+  triggerPhrases: z.preprocess(
+    (value) =>
+      Array.isArray(value)
+        ? value.map((entry) => ({ ...PHRASE_RULE_DEFAULTS, ...(typeof entry === "string" ? { phrase: entry } : entry) }))
+        : value,
+    z.array(triggerPhraseSchema).min(1, "Add at least one trigger phrase")
+  ),
+  voiceConfidenceThreshold: z.number().min(0.3).max(0.95),
+  voiceEngine: z.enum(["auto", "browser", "on-device"]),
+  voiceLanguages: z.array(languageTag).min(1, "Pick at least one language").max(3, "Pick at most three languages"),
+  webhookUrl: optionalUrl,
+  relayUrl: optionalUrl,
+  evidenceUploadUrl: optionalUrl,
+  evidenceMode: z.enum(["audio", "video", "photos"]),
+  cameraFacing: z.enum(["environment", "user"]),
+  photoInterval: z.number().int().min(2).max(60),
+  escalationStrategy: z.enum(["sequential", "broadcast", "tiered"]),
+  tierSize: z.number().int().min(1).max(10),
+  emergencyRegion: z.union([z.literal("auto"), z.string().regex(/^[A-Z]{2}$/)]),
+  emergencyNumber: optionalDialString,
+  policeNumber: optionalDialString,
+  ambulanceNumber: optionalDialString,
+  fireNumber: optionalDialString,
+  covertMode: z.boolean(),
+  decoyScreen: z.enum(["calculator", "blank"]),
+  cancelPin: optionalPin,
+  duressPin: optionalPin,
+  buttonGesture: z.enum(["tap", "long-press", "triple-tap"]),
+  keyTriggerEnabled: z.boolean(),
+  keyTriggerKey: z.enum(["AudioVolumeDown", "AudioVolumeUp", "Escape", " ", "Shift"]),
+  keyTriggerPresses: z.number().int().min(3).max(10),
+  shakeTriggerEnabled: z.boolean(),
+  shakeSensitivity: z.enum(["low", "medium", "high"]),
+  soundTriggerEnabled: z.boolean(),
+  soundSensitivity: z.enum(["low", "medium", "high"]),
+})
+
+export const settingsSchema = settingsFields.superRefine((settings, context) => {
+  const conflict = (path: keyof Settings, message: string) =>
+    context.addIssue({ code: z.ZodIssueCode.custom, path: [path], message })
+
+  // The duress PIN only works from the cancel prompt, which needs a real PIN to exist
+  if (settings.duressPin && !settings.cancelPin) {
+    conflict("duressPin", "Set a cancel PIN first")
+  } else if (settings.duressPin && settings.duressPin === settings.cancelPin) {
+    conflict("duressPin", "Must differ from the cancel PIN")
+  }
+  // Calls and texts bring their app up over the decoy or in front of whoever
+  // forced the cancel, so covert and duress alerts can only go out through
+  // the webhook
+  if (settings.duressPin && !settings.webhookUrl) {
+    conflict("duressPin", "The duress PIN needs an alert webhook URL")
+  }
+  if (settings.covertMode && !settings.webhookUrl) {
+    conflict("covertMode", "Covert mode needs an alert webhook URL")
+  }
+})
+
+export type Settings = z.infer<typeof settingsSchema>
+
+export type EvidenceMode = Settings["evidenceMode"]
+
+export type DecoyScreen = Settings["decoyScreen"]
+
+export type TriggerPhrase = Settings["triggerPhrases"][number]
+
+export type PhraseRule = TriggerPhrase["rule"]
+
+export function createTriggerPhrase(phrase = "", lang: string = DEFAULT_LANGUAGE): TriggerPhrase {
+  return { ...PHRASE_RULE_DEFAULTS, phrase, lang }
+}
+
+const localeLanguage = getLocalePackLanguage()
+
+export const DEFAULT_SETTINGS: Settings = {
+  responseTimeout: 15,
+  recordingDuration: 30,
+  cancelCountdown: 5,
+  triggerPhrases: PHRASE_PACKS[localeLanguage].phrases.map((phrase) => createTriggerPhrase(phrase, localeLanguage)),
+  voiceConfidenceThreshold: 0.6,
+  voiceEngine: "auto",
+  voiceLanguages: [localeLanguage],
+  webhookUrl: "",
+  relayUrl: "",
+  evidenceUploadUrl: "",
+  evidenceMode: "audio",
+  cameraFacing: "environment",
+  photoInterval: 5,
+  escalationStrategy: "sequential",
+  tierSize: 2,
+  emergencyRegion: "auto",
+  emergencyNumber: "",
+  policeNumber: "",
+  ambulanceNumber: "",
+  fireNumber: "",
+  covertMode: false,
+  decoyScreen: "calculator",
+  cancelPin: "",
+  duressPin: "",
+  buttonGesture: "tap",
+  keyTriggerEnabled: false,
+  keyTriggerKey: "AudioVolumeDown",
+  keyTriggerPresses: 5,
+  shakeTriggerEnabled: false,
+  shakeSensitivity: "medium",
+  soundTriggerEnabled: false,
+  soundSensitivity: "medium",
+}
+
+// Stored settings may come from an older build or be hand-edited, so every
+// field is validated on its own and falls back to its default when invalid.
+export function parseSettings(raw: unknown): Settings {
+  if (!raw || typeof raw !== "object") {
+    return DEFAULT_SETTINGS
+  }
+
+  const source = raw as Record<string, unknown>
+  const settings = { ...DEFAULT_SETTINGS }
+
+  for (const key of Object.keys(settingsFields.shape) as (keyof Settings)[]) {
+    const result = settingsFields.shape[key].safeParse(source[key])
+    if (result.success) {
+      (settings as Record<keyof Settings, unknown>)[key] = result.data
+    }
+  }
+
+  // Saved before languages could be picked: keep listening in the ones the phrases use
+  if (source.voiceLanguages === undefined && source.triggerPhrases !== undefined) {
+    settings.voiceLanguages = [...new Set(settings.triggerPhrases.map((phrase) => phrase.lang))].slice(0, 3)
+  }
+
+  return settings
+}
+
+export function loadSettings(): Settings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY)
+    return saved ? parseSettings(JSON.parse(saved)) : DEFAULT_SETTINGS
+  } catch (error) {
+    console.error("Error loading settings:", error)
+    return DEFAULT_SETTINGS
+  }
+}
+
+export function saveSettings(settings: Settings) {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings))
+}
@@ -0,0 +1,130 @@
+/**
+ * Keeps the browser's speech recognition running in one or more languages.
+ * Each language gets its own recogniser where the browser allows several
+ * at once; where starting a second one aborts the first, as in Chrome,
+ * a single recogniser takes turns between the languages instead.
+ */
+export interface SpeechListenerHandlers {
+  /** A recogniser started a new session; its result list starts empty again */
+  onStart?(lang: string): void
+  onResult(event: SpeechRecognitionEvent, lang: string): void
+  /** The languages being listened in right now */
+  onListeningChange?(languages: string[]): void
+  onError?(error: string, lang: string): void
+}
+
+/** How long each language gets before a rotating recogniser moves on */
+export const LANGUAGE_TURN_MS = 8000
+
+const RESTART_DELAY_MS = 1000
+
+// Once a browser has shown it can't run recognisers side by side there's
+// no point trying again for the rest of the visit
+let parallelUnsupported = false
+
+export function getSpeechRecognition() {
+  if (typeof window === "undefined") return null
+  return window.SpeechRecognition || window.webkitSpeechRecognition || null
+}
+
+export function createSpeechListener(languages: string[], handlers: SpeechListenerHandlers) {
+  const Recognition = getSpeechRecognition()
+  const active = new Map<SpeechRecognition, string>()
+  const timers = new Set<number>()
+  let running = false
+  // Bumped on stop, so sessions still winding down don't restart themselves
+  // alongside the ones a later start() opens
+  let generation = 0
+  let rotating = languages.length > 1 && parallelUnsupported
+  let turn = 0
+
+  const later = (callback: () => void, delay: number) => {
+    const timer = window.setTimeout(() => {
+      timers.delete(timer)
+      callback()
+    }, delay)
+    timers.add(timer)
+  }
+
+  const reportListening = () => handlers.onListeningChange?.([...new Set(active.values())])
+
+  const launch = (lang: string) => {
+    const launchedIn = generation
+    const recognition = new Recognition()
+    recognition.continuous = true
+    recognition.interimResults = true
+    recognition.lang = lang
+    recognition.maxAlternatives = 3
+
+    recognition.onstart = () => {
+      handlers.onStart?.(lang)
+      reportListening()
+    }
+
+    recognition.onresult = (event) => handlers.onResult(event, lang)
+
+    recognition.onerror = (event) => {
+      console.error(`Speech recognition error (${lang}):`, event.error)
+      handlers.onError?.(event.error, lang)
+      if (event.error === "aborted" && running && !rotating && active.size > 1) {
+        parallelUnsupported = true
+        rotating = true
+        active.forEach((_, other) => other.stop())
+      }
+    }
+
+    recognition.onend = () => {
+      active.delete(recognition)
+      reportListening()
+      if (!running || launchedIn !== generation) return
+
+      if (!rotating) {
+        later(() => launch(lang), RESTART_DELAY_MS)
+      } else if (active.size === 0) {
+        later(() => launch(nextLanguage()), 0)
+      }
+    }
+
+    active.set(recognition, lang)
+    try {
+      recognition.start()
+    } catch (error) {
+      console.error("Error starting recognition:", error)
+    }
+
+    if (rotating && languages.length > 1) {
+      later(() => recognition.stop(), LANGUAGE_TURN_MS)
+    }
+  }
+
+  const nextLanguage = () => languages[turn++ % languages.length]
+
+  return {
+    isSupported: () => Recognition !== null,
+
+    start() {
+      if (running || !Recognition) return
+      running = true
+      if (rotating) {
+        launch(nextLanguage())
+      } else {
+        languages.forEach(launch)
+      }
+    },
+
+    stop() {
+      running = false
+      generation++
+      timers.forEach((timer) => window.clearTimeout(timer))
+      timers.clear()
+      active.forEach((_, recognition) => recognition.stop())
+      active.clear()
+      reportListening()
+    },
+
+    /** Ends the current sessions so matching starts again on a clean transcript */
+    restart() {
+      active.forEach((_, recognition) => recognition.stop())
+    },
+  }
+}
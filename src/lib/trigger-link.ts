@@ -0,0 +1,74 @@
+import { TriggerSource } from "@/lib/incidents"
+
+/**
+ * Launching an emergency from outside the app.
+ *
+ * Anything that can open a URL (a home screen shortcut, an NFC tag, a
+ * widget, another app) can start the protocol with
+ *
+ *   https://<host>/trigger[?mode=silent|visible][&source=shortcut|link]
+ *
+ * - `mode=silent` runs covert (decoy screen, no toasts) whatever the
+ *   settings say; `mode=visible` shows the full overlay. Left out, the
+ *   covert mode setting decides.
+ * - `source` only labels the incident in History; anything other than
+ *   `shortcut` is recorded as `link`.
+ *
+ * The same parameters work through the custom scheme
+ * `web+alertbuddy:trigger?mode=silent`, which the installed app (via the
+ * manifest's protocol_handlers) or a browser that accepted
+ * {@link registerTriggerScheme} hands to `/trigger?uri=<encoded URI>`.
+ *
+ * Opening the link starts the normal cancel countdown, so a tag brushed
+ * by accident can still be called off.
+ */
+export const TRIGGER_PATH = "/trigger"
+
+export const TRIGGER_SCHEME = "web+alertbuddy"
+
+export type TriggerMode = "silent" | "visible"
+
+export interface TriggerRequest {
+  /** Null when the link leaves it to the covert mode setting */
+  mode: TriggerMode | null
+  source: TriggerSource
+}
+
+export function parseTriggerParams(search: string): TriggerRequest {
+  let params = new URLSearchParams(search)
+
+  // web+alertbuddy:trigger?mode=silent arrives as ?uri=web%2Balertbuddy%3Atrigger%3Fmode%3Dsilent
+  const uri = params.get("uri")
+  if (uri?.startsWith(`${TRIGGER_SCHEME}:`)) {
+    const query = uri.indexOf("?")
+    params = new URLSearchParams(query === -1 ? "" : uri.slice(query + 1))
+  }
+
+  const mode = params.get("mode")
+  return {
+    mode: mode === "silent" || mode === "visible" ? mode : null,
+    source: params.get("source") === "shortcut" ? "shortcut" : "link",
+  }
+}
+
+export function buildTriggerUrl(options: { mode?: TriggerMode; source?: "shortcut" | "link" } = {}) {
+  const url = new URL(TRIGGER_PATH, window.location.origin)
+  if (options.mode) url.searchParams.set("mode", options.mode)
+  if (options.source) url.searchParams.set("source", options.source)
+  return url.toString()
+}
+
+/**
+ * Asks the browser to send web+alertbuddy: links here. Installed apps get
+ * this from the manifest instead; elsewhere the browser asks the user first.
+ */
+export function registerTriggerScheme() {
+  if (typeof navigator.registerProtocolHandler !== "function") return false
+  try {
+    navigator.registerProtocolHandler(TRIGGER_SCHEME, `${window.location.origin}${TRIGGER_PATH}?uri=%s`)
+    return true
+  } catch (error) {
+    console.error("Error registering the emergency link scheme:", error)
+    return false
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest"
+
+import { TranscriptCandidate } from "@/lib/phrase-matcher"
+import { TriggerPhrase, createTriggerPhrase } from "@/lib/settings"
+import { CODE_WORD_WINDOW_MS, createPhraseRuleTracker, isAllClear } from "@/lib/trigger-rules"
+
+const heard = (text: string): TranscriptCandidate[] => [{ text, confidence: 0.9, isFinal: true }]
+
+const phrase = (text: string, rule: Partial<TriggerPhrase>): TriggerPhrase => ({
+  ...createTriggerPhrase(text, "en-US"),
+  ...rule,
+})
+
+const outcome = (result: { phrase: TriggerPhrase; action: string } | null) =>
+  result && [result.phrase.phrase, result.action]
+
+describe("createPhraseRuleTracker", () => {
+  it("triggers instant phrases mid-sentence and leaves the rest to finished utterances", () => {
+    const tracker = createPhraseRuleTracker(
+      [phrase("help me", { rule: "instant" }), phrase("call the police", { rule: "repeat" })],
+      0.6
+    )
+    expect(outcome(tracker.hearLive(heard("oh no help me please")))).toEqual(["help me", "trigger"])
+    expect(tracker.hearLive(heard("call the police"))).toBeNull()
+  })
+
+  it("triggers a repeated phrase once it's been said enough times within the window", () => {
+    const tracker = createPhraseRuleTracker([phrase("help", { rule: "repeat", repeatCount: 3, repeatWindow: 10 })], 0.6)
+    expect(tracker.hearUtterance(heard("help"), 0)).toBeNull()
+    expect(tracker.hearUtterance(heard("help"), 4000)).toBeNull()
+    expect(outcome(tracker.hearUtterance(heard("help"), 9000))).toEqual(["help", "trigger"])
+  })
+
+  it("counts a phrase said several times in one utterance", () => {
+    const tracker = createPhraseRuleTracker([phrase("help", { rule: "repeat", repeatCount: 3, repeatWindow: 10 })], 0.6)
+    expect(outcome(tracker.hearUtterance(heard("help help help"), 0))).toEqual(["help", "trigger"])
+  })
+
+  it("forgets repeats that fall outside the window", () => {
+    const tracker = createPhraseRuleTracker([phrase("help", { rule: "repeat", repeatCount: 3, repeatWindow: 10 })], 0.6)
+    tracker.hearUtterance(heard("help"), 0)
+    tracker.hearUtterance(heard("help"), 6000)
+    expect(tracker.hearUtterance(heard("help"), 12000)).toBeNull()
+    expect(outcome(tracker.hearUtterance(heard("help"), 14000))).toEqual(["help", "trigger"])
+  })
+
+  it("needs the code word within the window either side of the phrase", () => {
+    const tracker = createPhraseRuleTracker([phrase("help me", { rule: "code-word", codeWord: "pineapple" })], 0.6)
+    expect(tracker.hearUtterance(heard("pineapple"), 0)).toBeNull()
+    expect(outcome(tracker.hearUtterance(heard("help me"), CODE_WORD_WINDOW_MS))).toEqual(["help me", "trigger"])
+
+    // Used up once it has triggered
+    expect(tracker.hearUtterance(heard("help me"), CODE_WORD_WINDOW_MS + 1000)).toBeNull()
+  })
+
+  it("lets a code word expire", () => {
+    const tracker = createPhraseRuleTracker([phrase("help me", { rule: "code-word", codeWord: "pineapple" })], 0.6)
+    tracker.hearUtterance(heard("help me"), 0)
+    expect(tracker.hearUtterance(heard("pineapple"), CODE_WORD_WINDOW_MS + 1)).toBeNull()
+    expect(outcome(tracker.hearUtterance(heard("help me"), CODE_WORD_WINDOW_MS + 2000))).toEqual(["help me", "trigger"])
+  })
+
+  it("asks before triggering a phrase that needs confirming", () => {
+    const tracker = createPhraseRuleTracker([phrase("i'm scared", { rule: "confirm" })], 0.6)
+    expect(outcome(tracker.hearUtterance(heard("i'm scared"), 0))).toEqual(["i'm scared", "confirm"])
+  })
+
+  it("starts counting again after a reset", () => {
+    const tracker = createPhraseRuleTracker(
+      [
+        phrase("fire", { rule: "repeat", repeatCount: 2, repeatWindow: 10 }),
+        phrase("help me", { rule: "code-word", codeWord: "pineapple" }),
+      ],
+      0.6
+    )
+    tracker.hearUtterance(heard("fire"), 0)
+    tracker.hearUtterance(heard("pineapple"), 0)
+    tracker.reset()
+    expect(tracker.hearUtterance(heard("fire"), 1000)).toBeNull()
+    expect(tracker.hearUtterance(heard("help me"), 1000)).toBeNull()
+  })
+})
+
+describe("isAllClear", () => {
+  it("hears that no help is needed", () => {
+    expect(isAllClear(heard("yes i'm okay"), "en-US", 0.6)).toBe(true)
+    expect(isAllClear(heard("no"), "en-US", 0.6)).toBe(false)
+  })
+})
@@ -0,0 +1,127 @@
+import { PhraseRule, TriggerPhrase } from "@/lib/settings"
+import { createBurstCounter } from "@/lib/triggers"
+import { TranscriptCandidate, countPhraseMatches, matchTriggerPhrase } from "@/lib/phrase-matcher"
+import { getPhrasePack } from "@/lib/phrase-packs"
+
+/**
+ * Extra conditions a trigger phrase can carry so that saying it once in
+ * ordinary conversation doesn't start the protocol. "instant" phrases fire
+ * as soon as they're heard, even mid-sentence; the others are only judged
+ * on finished utterances, so a phrase still being spoken isn't counted twice.
+ */
+export const PHRASE_RULE_LABELS: Record<PhraseRule, string> = {
+  instant: "Trigger straight away",
+  repeat: "Say it several times",
+  "code-word": "Needs a code word",
+  confirm: "Ask \"Are you OK?\" out loud",
+}
+
+/** How close together a phrase and its code word must be said */
+export const CODE_WORD_WINDOW_MS = 10_000
+
+/** How long silence has to last after the prompt before it counts as a yes */
+export const CONFIRMATION_TIMEOUT_MS = 8000
+
+// Chrome sometimes never reports the end of an utterance, so the prompt is
+// given up on once it has had far longer than it takes to say
+const PROMPT_TIMEOUT_MS = 5000
+
+export type RuleOutcome = { phrase: TriggerPhrase; action: "trigger" | "confirm" }
+
+/**
+ * Tracks what has been heard against each phrase's rule. `hearLive` takes
+ * the running transcript and only acts on instant phrases; `hearUtterance`
+ * takes one finished utterance at a time and handles every other rule.
+ */
+export function createPhraseRuleTracker(phrases: TriggerPhrase[], threshold: number) {
+  const instant = phrases.filter((phrase) => phrase.rule === "instant").map((phrase) => phrase.phrase)
+  const repeats = new Map(
+    phrases
+      .filter((phrase) => phrase.rule === "repeat")
+      .map((phrase) => [phrase, createBurstCounter(phrase.repeatCount, phrase.repeatWindow * 1000)])
+  )
+  const phraseHeardAt = new Map<TriggerPhrase, number>()
+  const codeWordHeardAt = new Map<TriggerPhrase, number>()
+
+  const withinCodeWordWindow = (phrase: TriggerPhrase, now: number) =>
+    [phraseHeardAt.get(phrase), codeWordHeardAt.get(phrase)].every(
+      (at) => at !== undefined && now - at <= CODE_WORD_WINDOW_MS
+    )
+
+  return {
+    hearLive(candidates: TranscriptCandidate[]): RuleOutcome | null {
+      const match = matchTriggerPhrase(candidates, instant, threshold)
+      if (!match) return null
+      const phrase = phrases.find((entry) => entry.rule === "instant" && entry.phrase === match.phrase)
+      return { phrase, action: "trigger" }
+    },
+
+    hearUtterance(candidates: TranscriptCandidate[], now: number): RuleOutcome | null {
+      for (const phrase of phrases) {
+        if (phrase.rule === "instant") continue
+        const times = countPhraseMatches(candidates, phrase.phrase, threshold)
+
+        switch (phrase.rule) {
+          case "confirm":
+            if (times > 0) return { phrase, action: "confirm" }
+            break
+          case "repeat": {
+            const counter = repeats.get(phrase)
+            for (let index = 0; index < times; index++) {
+              if (counter.hit(now)) return { phrase, action: "trigger" }
+            }
+            break
+          }
+          case "code-word":
+            if (times > 0) phraseHeardAt.set(phrase, now)
+            if (countPhraseMatches(candidates, phrase.codeWord, threshold) > 0) codeWordHeardAt.set(phrase, now)
+            if (withinCodeWordWindow(phrase, now)) {
+              phraseHeardAt.delete(phrase)
+              codeWordHeardAt.delete(phrase)
+              return { phrase, action: "trigger" }
+            }
+            break
+        }
+      }
+      return null
+    },
+
+    reset() {
+      repeats.forEach((counter) => counter.reset())
+      phraseHeardAt.clear()
+      codeWordHeardAt.clear()
+    },
+  }
+}
+
+/** Whether a reply to the confirmation prompt, in the phrase's language, says no help is needed */
+export function isAllClear(candidates: TranscriptCandidate[], lang: string, threshold: number) {
+  return matchTriggerPhrase(candidates, getPhrasePack(lang).allClear, threshold) !== null
+}
+
+/**
+ * Says the confirmation prompt aloud in the given language and resolves
+ * once it has finished, so recognition isn't listening while it plays.
+ * Resolves false when the browser can't speak or never finishes speaking.
+ */
+export function speakConfirmationPrompt(lang: string): Promise<boolean> {
+  if (typeof window === "undefined" || !("speechSynthesis" in window)) {
+    return Promise.resolve(false)
+  }
+  return new Promise((resolve) => {
+    const utterance = new SpeechSynthesisUtterance(getPhrasePack(lang).confirmPrompt)
+    const timer = window.setTimeout(() => {
+      window.speechSynthesis.cancel()
+      resolve(false)
+    }, PROMPT_TIMEOUT_MS)
+    const finish = (spoken: boolean) => {
+      window.clearTimeout(timer)
+      resolve(spoken)
+    }
+    utterance.lang = lang
+    utterance.onend = () => finish(true)
+    utterance.onerror = () => finish(false)
+    window.speechSynthesis.cancel()
+    window.speechSynthesis.speak(utterance)
+  })
+}
@@ -0,0 +1,140 @@
+import { TriggerSource } from "@/lib/incidents"
+
+/**
+ * Something that can start an emergency without the on-screen button:
+ * a key pressed repeatedly, the phone being shaken, and so on. Detectors
+ * only watch for their signal; what happens next is up to whoever
+ * started them, and the source they report ends up on the incident.
+ */
+export interface TriggerDetector {
+  source: TriggerSource
+  isSupported(): boolean
+  /** Starts watching and returns a function that stops it again */
+  start(onTrigger: (source: TriggerSource) => void): () => void
+}
+
+/** Counts events and reports when `count` of them land within `windowMs` */
+export function createBurstCounter(count: number, windowMs: number) {
+  let hits: number[] = []
+  return {
+    hit(now: number) {
+      hits = [...hits.filter((at) => now - at <= windowMs), now]
+      if (hits.length < count) return false
+      hits = []
+      return true
+    },
+    reset() {
+      hits = []
+    },
+  }
+}
+
+/** Keys worth listening for; volume keys only reach the page on some devices */
+export const TRIGGER_KEYS = {
+  AudioVolumeDown: "Volume down",
+  AudioVolumeUp: "Volume up",
+  Escape: "Escape",
+  " ": "Space",
+  Shift: "Shift",
+} as const
+
+export type TriggerKey = keyof typeof TRIGGER_KEYS
+
+const KEY_PRESS_WINDOW_MS = 3000
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+
+export function createKeyPressDetector(options: { key: TriggerKey; presses: number }): TriggerDetector {
+  return {
+    source: "keys",
+    isSupported: () => typeof window !== "undefined",
+    start(onTrigger) {
+      const counter = createBurstCounter(options.presses, KEY_PRESS_WINDOW_MS)
+      const onKeyDown = (event: KeyboardEvent) => {
+        // Holding a key down is one press, and typing a space is not a signal
+        if (event.repeat || event.key !== options.key || isEditable(event.target)) return
+        if (counter.hit(event.timeStamp)) {
+          onTrigger("keys")
+        }
+      }
+      window.addEventListener("keydown", onKeyDown)
+      return () => window.removeEventListener("keydown", onKeyDown)
+    },
+  }
+}
+
+export type ShakeSensitivity = "low" | "medium" | "high"
+
+// How far, in m/s², total acceleration has to stray from gravity to count
+// as a jolt. Walking and running stay under the "low" threshold.
+const SHAKE_THRESHOLDS: Record<ShakeSensitivity, number> = {
+  low: 25,
+  medium: 18,
+  high: 12,
+}
+
+const GRAVITY = 9.81
+const SHAKES_NEEDED = 4
+const SHAKE_WINDOW_MS = 2000
+// One jolt spans several motion events; ignore the rest of it
+const SHAKE_DEBOUNCE_MS = 150
+
+const canSenseMotion = () => typeof window !== "undefined" && "DeviceMotionEvent" in window
+
+type MotionPermissionRequest = () => Promise<"granted" | "denied">
+
+/**
+ * iOS only delivers motion events after the user agrees, and the request
+ * has to come from a tap. Elsewhere there is nothing to ask.
+ */
+export async function requestMotionPermission() {
+  if (!canSenseMotion()) return false
+  const request = (DeviceMotionEvent as unknown as { requestPermission?: MotionPermissionRequest }).requestPermission
+  if (typeof request !== "function") return true
+  try {
+    return (await request()) === "granted"
+  } catch (error) {
+    console.error("Error requesting motion permission:", error)
+    return false
+  }
+}
+
+export function createShakeDetector(options: { sensitivity: ShakeSensitivity }): TriggerDetector {
+  return {
+    source: "shake",
+    isSupported: canSenseMotion,
+    start(onTrigger) {
+      const counter = createBurstCounter(SHAKES_NEEDED, SHAKE_WINDOW_MS)
+      const threshold = SHAKE_THRESHOLDS[options.sensitivity]
+      let lastJolt = -Infinity
+
+      const onMotion = (event: DeviceMotionEvent) => {
+        const { x, y, z } = event.accelerationIncludingGravity ?? {}
+        if (x == null || y == null || z == null) return
+        const force = Math.abs(Math.hypot(x, y, z) - GRAVITY)
+        if (force < threshold || event.timeStamp - lastJolt < SHAKE_DEBOUNCE_MS) return
+        lastJolt = event.timeStamp
+        if (counter.hit(event.timeStamp)) {
+          onTrigger("shake")
+        }
+      }
+      window.addEventListener("devicemotion", onMotion)
+      return () => window.removeEventListener("devicemotion", onMotion)
+    },
+  }
+}
+
+/** How the big on-screen button has to be pressed */
+export type ButtonGesture = "tap" | "long-press" | "triple-tap"
+
+export const LONG_PRESS_MS = 1500
+export const TAP_PATTERN_COUNT = 3
+export const TAP_PATTERN_WINDOW_MS = 1200
+
+export const BUTTON_GESTURE_SOURCES: Record<ButtonGesture, TriggerSource> = {
+  "tap": "button",
+  "long-press": "long-press",
+  "triple-tap": "tap-pattern",
+}
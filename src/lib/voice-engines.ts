@@ -0,0 +1,209 @@
+import { TranscriptCandidate, candidatesFromResults } from "@/lib/phrase-matcher"
+import { createSpeechListener, getSpeechRecognition } from "@/lib/speech-listener"
+import { AudioCapture, isAudioCaptureSupported, startAudioCapture } from "@/lib/audio-capture"
+import type { KeywordModel } from "@/lib/keyword-models"
+import type { SpotterEvent, SpotterRequest } from "@/workers/keyword-spotter.worker"
+
+/**
+ * The ways voice triggering can hear. Every engine reports what it heard
+ * as transcript candidates, so the phrase rules downstream work the same
+ * whichever one is running:
+ *
+ * - speech-recognition: the browser's SpeechRecognition. Hears any phrase
+ *   in any listed language, but is missing from some browsers and in
+ *   others sends audio to a server, so fails offline.
+ * - keyword-spotter: template matching in a worker on raw microphone
+ *   audio (see keyword-spotting.ts). Runs entirely on the device, but only
+ *   hears phrases the user has recorded.
+ */
+export type VoiceEngineKind = "speech-recognition" | "keyword-spotter"
+
+export type VoiceEnginePreference = "auto" | "browser" | "on-device"
+
+export const VOICE_ENGINE_LABELS: Record<VoiceEngineKind, string> = {
+  "speech-recognition": "Browser speech recognition",
+  "keyword-spotter": "On-device keyword spotting",
+}
+
+export interface VoiceEngineHandlers {
+  /** Everything heard in the current session, which may still be revised */
+  onLive(candidates: TranscriptCandidate[], lang: string): void
+  /** One finished utterance; each is reported once */
+  onUtterance(candidates: TranscriptCandidate[], lang: string): void
+  /** The languages being listened in right now */
+  onListeningChange?(languages: string[]): void
+  /** The engine has stopped for good, with a reason to show */
+  onUnavailable?(reason: string): void
+}
+
+export interface VoiceEngine {
+  kind: VoiceEngineKind
+  start(): void
+  stop(): void
+  /** Forgets what has been heard so far, so it can't set anything off again */
+  restart(): void
+}
+
+// Errors after which browser recognition won't work until something changes
+const FATAL_SPEECH_ERRORS: Record<string, string> = {
+  network: "Speech recognition needs a connection",
+  "service-not-allowed": "Speech recognition is turned off in this browser",
+  "not-allowed": "Microphone access was not allowed",
+  "language-not-supported": "Speech recognition doesn't support a chosen language",
+}
+
+export function createSpeechRecognitionEngine(languages: string[], handlers: VoiceEngineHandlers): VoiceEngine {
+  // Final results already reported for each language's current session
+  const reported = new Map<string, number>()
+  // Bumped on restart so the rest of a result list already being read is dropped
+  let session = 0
+
+  const listener = createSpeechListener(languages, {
+    onStart: (lang) => reported.set(lang, 0),
+
+    onResult: (event, lang) => {
+      const current = session
+      // Every result of the session, so a phrase split across two still counts
+      handlers.onLive(candidatesFromResults(event.results), lang)
+
+      let count = reported.get(lang) ?? 0
+      while (session === current && count < event.results.length && event.results[count].isFinal) {
+        handlers.onUtterance(candidatesFromResults([event.results[count]]), lang)
+        count++
+      }
+      reported.set(lang, count)
+    },
+
+    onListeningChange: handlers.onListeningChange,
+
+    onError: (error) => {
+      if (FATAL_SPEECH_ERRORS[error]) {
+        listener.stop()
+        handlers.onUnavailable?.(FATAL_SPEECH_ERRORS[error])
+      }
+    },
+  })
+
+  return {
+    kind: "speech-recognition",
+    start: () => listener.start(),
+    stop() {
+      session++
+      listener.stop()
+    },
+    restart() {
+      session++
+      listener.restart()
+    },
+  }
+}
+
+export function createKeywordSpotterEngine(models: KeywordModel[], handlers: VoiceEngineHandlers): VoiceEngine {
+  const languages = [...new Set(models.map((model) => model.lang))]
+  let capture: AudioCapture | null = null
+  let worker: Worker | null = null
+  let running = false
+  let session = 0
+
+  const begin = async () => {
+    try {
+      const started = await startAudioCapture()
+      if (!running) {
+        started.stop()
+        return
+      }
+
+      const spotter = new Worker(new URL("../workers/keyword-spotter.worker.ts", import.meta.url), { type: "module" })
+      const channel = new MessageChannel()
+      started.connect(channel.port1)
+      const request: SpotterRequest = { type: "start", sampleRate: started.sampleRate, models, audio: channel.port2 }
+      spotter.postMessage(request, [channel.port2])
+
+      spotter.onmessage = ({ data }: MessageEvent<SpotterEvent>) => {
+        const current = session
+        // A spotted phrase is as final as it gets, so it counts as both
+        const candidates: TranscriptCandidate[] = [{ text: data.phrase, confidence: null, isFinal: true }]
+        handlers.onLive(candidates, data.lang)
+        if (running && session === current) handlers.onUtterance(candidates, data.lang)
+      }
+
+      capture = started
+      worker = spotter
+      handlers.onListeningChange?.(languages)
+    } catch (error) {
+      console.error("Error starting keyword spotting:", error)
+      running = false
+      handlers.onUnavailable?.("Couldn't open the microphone for on-device detection")
+    }
+  }
+
+  return {
+    kind: "keyword-spotter",
+    start() {
+      if (running) return
+      running = true
+      begin()
+    },
+    stop() {
+      running = false
+      session++
+      capture?.stop()
+      worker?.terminate()
+      capture = null
+      worker = null
+      handlers.onListeningChange?.([])
+    },
+    // The worker drops its audio after every detection already
+    restart() {
+      session++
+    },
+  }
+}
+
+export function getVoiceCapabilities() {
+  return {
+    speechRecognition: getSpeechRecognition() !== null,
+    keywordSpotting: isAudioCaptureSupported() && typeof Worker !== "undefined",
+  }
+}
+
+export interface VoiceEngineChoice {
+  kind: VoiceEngineKind | null
+  /** Why the preferred engine isn't the one running, or why none is */
+  reason: string | null
+}
+
+/**
+ * Picks the engine to listen with. "auto" prefers browser recognition and
+ * falls back to on-device spotting when recognition is missing, offline or
+ * has failed; the other preferences stick to one engine.
+ */
+export function chooseVoiceEngine(
+  preference: VoiceEnginePreference,
+  state: { online: boolean; speechFailure: string | null; enrolledPhrases: number }
+): VoiceEngineChoice {
+  const capabilities = getVoiceCapabilities()
+
+  const speechProblem = !capabilities.speechRecognition
+    ? "This browser has no speech recognition"
+    : state.speechFailure ?? (preference === "auto" && !state.online ? "Offline" : null)
+  const spotterProblem = !capabilities.keywordSpotting
+    ? "This browser can't analyse microphone audio on the device"
+    : state.enrolledPhrases === 0
+      ? "Record your trigger phrases in settings to use on-device detection"
+      : null
+
+  if (preference !== "on-device" && !speechProblem) {
+    return { kind: "speech-recognition", reason: null }
+  }
+  if (preference === "browser") {
+    return { kind: null, reason: speechProblem }
+  }
+  if (!spotterProblem) {
+    return { kind: "keyword-spotter", reason: preference === "auto" ? speechProblem : null }
+  }
+  return {
+    kind: null,
+    reason: preference === "auto" ? `${speechProblem}. ${spotterProblem}.` : spotterProblem,
+  }
+}
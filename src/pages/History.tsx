@@ -0,0 +1,303 @@
+import React, { useState } from 'react';
+import { Link } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Scatter, ScatterChart, XAxis, YAxis, CartesianGrid } from "recharts";
+import { ArrowLeft, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  IncidentRecord,
+  TRIGGER_SOURCE_LABELS,
+  asShownInHistory,
+  deleteIncident,
+  getContactsAttempted,
+  listIncidents
+} from "@/lib/incidents";
+import { ProtocolLogEntry, ProtocolPhase } from "@/lib/emergency-engine";
+import { TRANSPORT_LABELS } from "@/lib/alert-transports";
+import { deleteRecordingsForIncident } from "@/lib/recordings";
+
+type Lane = 'countdown' | 'contacts' | 'response' | 'hold' | 'location' | 'end';
+
+const LANES: Lane[] = ['countdown', 'contacts', 'response', 'hold', 'location', 'end'];
+
+const chartConfig = {
+  countdown: { label: "Countdown", color: "#9ca3af" },
+  contacts: { label: "Contacts", color: "#facc15" },
+  response: { label: "Response", color: "#4ade80" },
+  hold: { label: "Hold", color: "#60a5fa" },
+  location: { label: "Location", color: "#a78bfa" },
+  end: { label: "End", color: "#f87171" },
+} satisfies ChartConfig;
+
+const OUTCOME_LABELS: Record<ProtocolPhase, string> = {
+  'idle': "Not started",
+  'countdown': "Counting down",
+  'alerting': "Alerting",
+  'acknowledged': "Acknowledged",
+  'emergency-services': "Emergency services",
+  'cancelled': "Cancelled"
+};
+
+interface TimelineEntry {
+  at: number;
+  lane: Lane;
+  label: string;
+}
+
+const contactName = (record: IncidentRecord, contactId: string) =>
+  record.contacts.find(contact => contact.id === contactId)?.name ?? 'Unknown contact';
+
+const describeEvent = (record: IncidentRecord, event: ProtocolLogEntry): TimelineEntry => {
+  switch (event.type) {
+    case 'countdown-started':
+      return { at: event.at, lane: 'countdown', label: "Countdown started" };
+    case 'contact-alerted':
+      return { at: event.at, lane: 'contacts', label: `Alerted ${contactName(record, event.contactId)}` };
+    case 'alert-delivery':
+      return {
+        at: event.at,
+        lane: 'contacts',
+        label: `${TRANSPORT_LABELS[event.delivery.transport]} to ${contactName(record, event.delivery.contactId)}: ${event.delivery.status}`
+      };
+    case 'acknowledged':
+      return { at: event.at, lane: 'response', label: `${contactName(record, event.contactId)} acknowledged` };
+    case 'paused':
+      return { at: event.at, lane: 'hold', label: "Escalation put on hold" };
+    case 'resumed':
+      return { at: event.at, lane: 'hold', label: "Escalation resumed" };
+    case 'emergency-services-called': {
+      const number = event.number ? ` (${event.number})` : '';
+      // Logged when the call was due, which may have been held back afterwards
+      const skipped = record.events.some(entry => entry.type === 'emergency-services-skipped');
+      return {
+        at: event.at,
+        lane: 'end',
+        label: skipped ? `Emergency services due${number}` : `Called emergency services${number}`
+      };
+    }
+    case 'emergency-services-skipped':
+      return { at: event.at, lane: 'end', label: `Did not dial ${event.number} while the emergency was hidden` };
+    case 'cancelled':
+    case 'duress':
+      return { at: event.at, lane: 'end', label: "Cancelled" };
+  }
+};
+
+const buildTimeline = (record: IncidentRecord): TimelineEntry[] =>
+  [
+    ...record.events.map(event => describeEvent(record, event)),
+    ...record.locations.map(location => ({
+      at: location.at,
+      lane: 'location' as const,
+      label: `Location ${location.lat.toFixed(5)}, ${location.lng.toFixed(5)}`
+    }))
+  ].sort((a, b) => a.at - b.at);
+
+const formatOffset = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const IncidentTimeline: React.FC<{ record: IncidentRecord }> = ({ record }) => {
+  const timeline = buildTimeline(record);
+  const points = timeline.map(entry => ({
+    ...entry,
+    offset: (entry.at - record.startedAt) / 1000,
+    row: LANES.indexOf(entry.lane)
+  }));
+
+  return (
+    <div className="space-y-4">
+      <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+        <ScatterChart margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            type="number"
+            dataKey="offset"
+            name="Time"
+            unit="s"
+            domain={[0, 'dataMax']}
+          />
+          <YAxis
+            type="number"
+            dataKey="row"
+            domain={[-0.5, LANES.length - 0.5]}
+            ticks={LANES.map((_, index) => index)}
+            tickFormatter={(index: number) => chartConfig[LANES[index]]?.label ?? ''}
+            width={80}
+            reversed
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                hideIndicator
+                labelFormatter={(_, payload) => payload?.[0]?.payload?.label}
+                formatter={(_, __, item) => `+${formatOffset(item.payload.at - record.startedAt)}`}
+              />
+            }
+          />
+          {LANES.map(lane => (
+            <Scatter
+              key={lane}
+              name={chartConfig[lane].label}
+              data={points.filter(point => point.lane === lane)}
+              fill={`var(--color-${lane})`}
+            />
+          ))}
+        </ScatterChart>
+      </ChartContainer>
+
+      <Table>
+        <TableHeader>
+          <TableRow className="border-gray-700">
+            <TableHead className="w-16 text-gray-400">Time</TableHead>
+            <TableHead className="text-gray-400">Event</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {timeline.map((entry, index) => (
+            <TableRow key={index} className="border-gray-700">
+              <TableCell className="font-mono text-gray-400">
+                +{formatOffset(entry.at - record.startedAt)}
+              </TableCell>
+              <TableCell>
+                <span style={{ color: chartConfig[entry.lane].color }}>●</span> {entry.label}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {record.recording && (
+        <p className="text-sm text-gray-400">
+          Recording:{' '}
+          <Link to={`/recordings#${record.recording.id}`} className="text-blue-400 hover:underline">
+            {record.recording.filename}
+          </Link>{' '}
+          ({formatOffset(record.recording.duration * 1000)})
+        </p>
+      )}
+
+      {record.photos?.length > 0 && (
+        <p className="text-sm text-gray-400">
+          {record.photos.length} photo{record.photos.length === 1 ? '' : 's'} captured •{' '}
+          <Link to="/recordings" className="text-blue-400 hover:underline">
+            View in Recordings
+          </Link>
+        </p>
+      )}
+    </div>
+  );
+};
+
+const History = () => {
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { data: incidents = [], isLoading, error } = useQuery({
+    queryKey: ['incidents'],
+    queryFn: async () => (await listIncidents()).map(asShownInHistory)
+  });
+
+  const selected = incidents.find(incident => incident.id === selectedId);
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this incident and its recordings?')) return;
+    await deleteRecordingsForIncident(id);
+    await deleteIncident(id);
+    setSelectedId(null);
+    queryClient.invalidateQueries({ queryKey: ['incidents'] });
+    queryClient.invalidateQueries({ queryKey: ['recordings'] });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-red-900 via-black to-red-800 text-white p-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center gap-4 pt-8">
+          <Button asChild variant="outline" size="sm" className="bg-gray-800 border-gray-600 text-white">
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold text-red-400">Incident History</h1>
+        </div>
+
+        <div className="bg-gray-800 rounded-lg p-4">
+          {isLoading ? (
+            <p className="text-gray-400">Loading incidents...</p>
+          ) : error ? (
+            <p className="text-red-400">Could not load incident history.</p>
+          ) : incidents.length === 0 ? (
+            <p className="text-gray-400 text-center py-8">No emergencies recorded yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-gray-700">
+                  <TableHead className="text-gray-400">Started</TableHead>
+                  <TableHead className="text-gray-400">Trigger</TableHead>
+                  <TableHead className="text-gray-400">Outcome</TableHead>
+                  <TableHead className="text-gray-400">Contacts</TableHead>
+                  <TableHead className="text-gray-400">Duration</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {incidents.map(incident => (
+                  <TableRow
+                    key={incident.id}
+                    onClick={() => setSelectedId(incident.id === selectedId ? null : incident.id)}
+                    data-state={incident.id === selectedId ? 'selected' : undefined}
+                    className="border-gray-700 cursor-pointer hover:bg-gray-700 data-[state=selected]:bg-gray-700"
+                  >
+                    <TableCell>{new Date(incident.startedAt).toLocaleString()}</TableCell>
+                    <TableCell>{TRIGGER_SOURCE_LABELS[incident.triggerSource] ?? incident.triggerSource}</TableCell>
+                    <TableCell>
+                      <Badge variant={incident.outcome === 'cancelled' ? 'secondary' : 'destructive'}>
+                        {OUTCOME_LABELS[incident.outcome]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{getContactsAttempted(incident).length}</TableCell>
+                    <TableCell className="font-mono">
+                      {incident.endedAt ? formatOffset(incident.endedAt - incident.startedAt) : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        {selected && (
+          <div className="bg-gray-800 rounded-lg p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold">
+                {new Date(selected.startedAt).toLocaleString()}
+              </h2>
+              <Button
+                onClick={() => handleDelete(selected.id)}
+                variant="ghost"
+                size="sm"
+                className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+            </div>
+            <IncidentTimeline record={selected} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default History;
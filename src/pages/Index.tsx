@@ -1,45 +1,68 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Button } from "@/components/ui/button";
-import { Plus, Phone, Mic, MicOff, MapPin } from "lucide-react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { Plus, Phone, Mic, MicOff, MapPin, History, AudioLines, Download } from "lucide-react";
 import EmergencyContacts from "@/components/EmergencyContacts";
 import VoiceTrigger from "@/components/VoiceTrigger";
 import EmergencyProtocol from "@/components/EmergencyProtocol";
 import EmergencySettings from "@/components/EmergencySettings";
 import { useToast } from "@/hooks/use-toast";
-
-interface EmergencyContact {
-  id: string;
-  name: string;
-  phone: string;
-  priority: number;
-}
+import {
+  ContactFields,
+  EmergencyContact,
+  loadContacts,
+  moveContact,
+  normalizePriorities,
+  saveContacts,
+  sortByPriority
+} from "@/lib/contacts";
+import { TriggerSource } from "@/lib/incidents";
+import { evidenceUploader } from "@/lib/evidence-upload";
+import { flushOutbox } from "@/lib/outbox";
+import { TriggerMode } from "@/lib/trigger-link";
+import { TriggerLocationState } from "@/pages/Trigger";
+import { useSettings } from "@/hooks/use-settings";
+import { useInstallPrompt } from "@/hooks/use-install-prompt";
+import { useTriggerDetectors } from "@/hooks/use-trigger-detectors";
+import { useButtonGesture } from "@/hooks/use-button-gesture";
 
 const Index = () => {
-  const [contacts, setContacts] = useState<EmergencyContact[]>([]);
+  const [contacts, setContacts] = useState<EmergencyContact[]>(loadContacts);
   const [isEmergencyActive, setIsEmergencyActive] = useState(false);
+  const [triggerSource, setTriggerSource] = useState<TriggerSource>('button');
+  const [isCovert, setIsCovert] = useState(false);
+  // Set when the duress PIN "cancelled" the protocol, which keeps running unseen
+  const [isDuress, setIsDuress] = useState(false);
   const [isVoiceEnabled, setIsVoiceEnabled] = useState(false);
   const [location, setLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const { settings } = useSettings();
   const { toast } = useToast();
+  const { canInstall, promptInstall } = useInstallPrompt();
+  const routerLocation = useLocation();
+  const navigate = useNavigate();
+  // Mirrors whether a protocol is running, shown or not, for the trigger
+  // handler below, which has to stay stable for VoiceTrigger's sake
+  const emergencyActiveRef = useRef(false);
 
-  // Load contacts from localStorage on mount
   useEffect(() => {
-    const savedContacts = localStorage.getItem('emergencyContacts');
-    if (savedContacts) {
-      setContacts(JSON.parse(savedContacts));
-    }
-    
     // Get location on app start
     getCurrentLocation();
   }, []);
 
+  // Send any evidence and alerts left over from an earlier session
+  useEffect(() => {
+    evidenceUploader.flush();
+    flushOutbox();
+  }, []);
+
   // Save contacts to localStorage when updated
   useEffect(() => {
-    localStorage.setItem('emergencyContacts', JSON.stringify(contacts));
+    saveContacts(contacts);
   }, [contacts]);
 
-  // Get current location
-  const getCurrentLocation = () => {
+  // Get current location; a quiet lookup keeps failures out of sight
+  const getCurrentLocation = useCallback((quiet = false) => {
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
         (position) => {
@@ -50,6 +73,7 @@ const Index = () => {
         },
         (error) => {
           console.error('Location error:', error);
+          if (quiet) return;
           toast({
             title: "Location Error",
             description: "Unable to get your location. Please enable location services.",
@@ -58,38 +82,93 @@ const Index = () => {
         }
       );
     }
-  };
+  }, [toast]);
 
-  const handleEmergencyTrigger = () => {
-    console.log('Emergency triggered!');
-    getCurrentLocation();
+  const handleEmergencyTrigger = useCallback((source: TriggerSource, mode: TriggerMode | null = null) => {
+    // Voice keeps listening during an emergency; hearing it again mustn't
+    // restart or change the one under way. That goes for one running hidden
+    // after the duress PIN too: replacing it would end its alerts and put a
+    // real cancel in front of whoever forced the first one
+    if (emergencyActiveRef.current) return;
+    emergencyActiveRef.current = true;
+    // A link can ask for silent or visible; otherwise the setting decides
+    const covert = mode ? mode === 'silent' : settings.covertMode;
+    getCurrentLocation(covert);
+    setTriggerSource(source);
+    setIsCovert(covert);
+    setIsDuress(false);
     setIsEmergencyActive(true);
     
-    toast({
-      title: "🚨 EMERGENCY ACTIVATED",
-      description: "Starting emergency protocol...",
-      variant: "destructive"
-    });
+    if (!covert) {
+      toast({
+        title: "🚨 EMERGENCY ACTIVATED",
+        description: "Starting emergency protocol...",
+        variant: "destructive"
+      });
+    }
+  }, [getCurrentLocation, settings.covertMode, toast]);
+
+  // Opened from a shortcut, NFC tag or other app via /trigger: start straight
+  // away, then clear the request so reloading the page doesn't repeat it
+  const triggerRequest = (routerLocation.state as TriggerLocationState | null)?.trigger;
+  useEffect(() => {
+    if (!triggerRequest) return;
+    handleEmergencyTrigger(triggerRequest.source, triggerRequest.mode);
+    navigate('/', { replace: true, state: null });
+  }, [triggerRequest, handleEmergencyTrigger, navigate]);
+
+  // Kept stable so VoiceTrigger doesn't restart recognition on every render
+  const handleVoiceTrigger = useCallback(() => handleEmergencyTrigger('voice'), [handleEmergencyTrigger]);
+
+  const { handlers: buttonHandlers, isHolding } = useButtonGesture(settings.buttonGesture, handleEmergencyTrigger);
+
+  const announceCancelled = () => {
+    if (!isCovert) {
+      toast({
+        title: "Emergency Cancelled",
+        description: "Emergency protocol stopped."
+      });
+    }
   };
 
   const handleEmergencyCancel = () => {
     setIsEmergencyActive(false);
-    toast({
-      title: "Emergency Cancelled",
-      description: "Emergency protocol stopped."
-    });
+    announceCancelled();
   };
 
-  const addContact = (contact: Omit<EmergencyContact, 'id'>) => {
-    const newContact = {
-      ...contact,
-      id: Date.now().toString()
-    };
-    setContacts(prev => [...prev, newContact]);
+  const handleEmergencyDuress = () => {
+    setIsDuress(true);
+    announceCancelled();
+  };
+
+  // What the screen shows; under duress the protocol is still mounted
+  const showsEmergency = isEmergencyActive && !isDuress;
+  emergencyActiveRef.current = isEmergencyActive;
+
+  useTriggerDetectors(settings, !isEmergencyActive, handleEmergencyTrigger);
+
+  const addContact = (contact: ContactFields) => {
+    // New contacts join the end of the escalation order
+    setContacts(prev => [...prev, { ...contact, id: Date.now().toString(), priority: prev.length + 1 }]);
+  };
+
+  const importContacts = (imported: ContactFields[]) => {
+    setContacts(prev => [
+      ...prev,
+      ...sortByPriority(imported).map((contact, index) => ({
+        ...contact,
+        id: crypto.randomUUID(),
+        priority: prev.length + index + 1
+      }))
+    ]);
+    toast({
+      title: "Contacts Imported",
+      description: `${imported.length} ${imported.length === 1 ? 'contact' : 'contacts'} added.`
+    });
   };
 
   const removeContact = (id: string) => {
-    setContacts(prev => prev.filter(contact => contact.id !== id));
+    setContacts(prev => normalizePriorities(prev.filter(contact => contact.id !== id)));
   };
 
   const updateContact = (id: string, updatedContact: Partial<EmergencyContact>) => {
@@ -98,6 +177,10 @@ const Index = () => {
     ));
   };
 
+  const reorderContact = (id: string, toIndex: number) => {
+    setContacts(prev => moveContact(prev, id, toIndex));
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-red-900 via-black to-red-800 text-white p-4">
       <div className="max-w-md mx-auto space-y-6">
@@ -109,19 +192,43 @@ const Index = () => {
           <p className="text-lg text-gray-300">
             Your safety companion
           </p>
-          <div className="mt-4">
+          <div className="mt-4 flex justify-center gap-2">
             <EmergencySettings />
+            <Button asChild variant="outline" className="bg-gray-800 border-gray-600 text-white">
+              <Link to="/history">
+                <History className="w-4 h-4 mr-2" />
+                History
+              </Link>
+            </Button>
+            <Button asChild variant="outline" className="bg-gray-800 border-gray-600 text-white">
+              <Link to="/recordings">
+                <AudioLines className="w-4 h-4 mr-2" />
+                Recordings
+              </Link>
+            </Button>
           </div>
+          {canInstall && (
+            <Button
+              onClick={promptInstall}
+              variant="outline"
+              className="mt-2 bg-gray-800 border-gray-600 text-white"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Install App
+            </Button>
+          )}
         </div>
 
         {/* Emergency Button */}
-        <div className="flex justify-center">
+        <div className="flex flex-col items-center gap-2">
           <Button
-            onClick={handleEmergencyTrigger}
-            disabled={isEmergencyActive}
-            className="w-48 h-48 rounded-full bg-red-600 hover:bg-red-700 text-white text-2xl font-bold shadow-lg transform hover:scale-105 transition-all duration-200 border-4 border-red-400"
+            {...buttonHandlers}
+            disabled={showsEmergency}
+            className={`w-48 h-48 rounded-full bg-red-600 hover:bg-red-700 text-white text-2xl font-bold shadow-lg transform hover:scale-105 transition-all border-4 border-red-400 select-none ${
+              isHolding ? 'scale-95 bg-red-800 [transition-duration:1500ms]' : 'duration-200'
+            }`}
           >
-            {isEmergencyActive ? (
+            {showsEmergency ? (
               <div className="text-center">
                 <div className="animate-pulse text-4xl">🚨</div>
                 <div>ACTIVE</div>
@@ -133,6 +240,11 @@ const Index = () => {
               </div>
             )}
           </Button>
+          {!showsEmergency && settings.buttonGesture !== 'tap' && (
+            <p className="text-sm text-gray-400">
+              {settings.buttonGesture === 'long-press' ? 'Press and hold to activate' : 'Tap three times to activate'}
+            </p>
+          )}
         </div>
 
         {/* Voice Trigger Toggle */}
@@ -149,7 +261,7 @@ const Index = () => {
             </Button>
           </div>
           <p className="text-sm text-gray-400 mt-2">
-            Say "Help me" to trigger emergency
+            Say "{settings.triggerPhrases[0].phrase}" to trigger emergency
           </p>
         </div>
 
@@ -183,14 +295,16 @@ const Index = () => {
         <EmergencyContacts 
           contacts={contacts}
           onAdd={addContact}
+          onImport={importContacts}
           onRemove={removeContact}
           onUpdate={updateContact}
+          onReorder={reorderContact}
         />
 
         {/* Voice Trigger Component */}
         {isVoiceEnabled && (
           <VoiceTrigger
-            onTrigger={handleEmergencyTrigger}
+            onTrigger={handleVoiceTrigger}
             isActive={isVoiceEnabled}
           />
         )}
@@ -200,7 +314,11 @@ const Index = () => {
           <EmergencyProtocol
             contacts={contacts}
             location={location}
+            triggerSource={triggerSource}
+            covert={isCovert}
+            hidden={isDuress}
             onCancel={handleEmergencyCancel}
+            onDuress={handleEmergencyDuress}
           />
         )}
 
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Download, HardDrive, Mic, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  RecordingRecord,
+  deleteRecording,
+  formatBytes,
+  getStorageUsage,
+  listRecordings
+} from "@/lib/recordings";
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+// Object URLs hold the blob in memory, so each row owns and releases its own
+const useObjectUrl = (blob: Blob) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+};
+
+const RecordingItem: React.FC<{
+  recording: RecordingRecord;
+  onDelete: (recording: RecordingRecord) => void;
+}> = ({ recording, onDelete }) => {
+  const url = useObjectUrl(recording.blob);
+
+  return (
+    <div id={recording.id} className="bg-gray-700 rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="font-semibold">{new Date(recording.createdAt).toLocaleString()}</div>
+          <div className="text-xs text-gray-400">
+            {recording.kind === 'photo' ? 'Photo' : formatDuration(recording.duration)} • {formatBytes(recording.size)}
+          </div>
+        </div>
+        <div className="flex gap-1">
+          {url && (
+            <Button asChild variant="ghost" size="sm" className="text-gray-300 hover:bg-gray-600">
+              <a href={url} download={recording.filename} aria-label="Download recording">
+                <Download className="w-4 h-4" />
+              </a>
+            </Button>
+          )}
+          <Button
+            onClick={() => onDelete(recording)}
+            variant="ghost"
+            size="sm"
+            aria-label="Delete recording"
+            className="text-red-400 hover:text-red-300 hover:bg-red-900/20"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      {url && (recording.kind === 'photo' ? (
+        <img src={url} alt="Emergency photo" className="w-full rounded" />
+      ) : recording.kind === 'video' ? (
+        <video controls src={url} className="w-full rounded" preload="metadata" playsInline />
+      ) : (
+        <audio controls src={url} className="w-full" preload="metadata" />
+      ))}
+    </div>
+  );
+};
+
+const Recordings = () => {
+  const queryClient = useQueryClient();
+  const { data: recordings = [], isLoading, error } = useQuery({
+    queryKey: ['recordings'],
+    queryFn: listRecordings
+  });
+  const { data: storage } = useQuery({
+    queryKey: ['storage-usage'],
+    queryFn: getStorageUsage
+  });
+
+  const handleDelete = async (recording: RecordingRecord) => {
+    if (!window.confirm('Delete this recording? It cannot be recovered.')) return;
+    await deleteRecording(recording);
+    queryClient.invalidateQueries({ queryKey: ['recordings'] });
+    queryClient.invalidateQueries({ queryKey: ['incidents'] });
+    queryClient.invalidateQueries({ queryKey: ['storage-usage'] });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-red-900 via-black to-red-800 text-white p-4">
+      <div className="max-w-md mx-auto space-y-6">
+        <div className="flex items-center gap-4 pt-8">
+          <Button asChild variant="outline" size="sm" className="bg-gray-800 border-gray-600 text-white">
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold text-red-400">Recordings</h1>
+        </div>
+
+        {storage && (
+          <div className="bg-gray-800 rounded-lg p-4 space-y-2">
+            <div className="flex items-center gap-2">
+              <HardDrive className="w-5 h-5 text-blue-400" />
+              <span className="font-semibold">Storage</span>
+            </div>
+            <Progress value={storage.quota ? (storage.usage / storage.quota) * 100 : 0} className="h-2" />
+            <p className="text-xs text-gray-400">
+              {formatBytes(storage.usage)} used of {formatBytes(storage.quota)} available
+              {!storage.persisted && ' • may be cleared by the browser when space runs low'}
+            </p>
+          </div>
+        )}
+
+        <div className="bg-gray-800 rounded-lg p-4">
+          {isLoading ? (
+            <p className="text-gray-400">Loading recordings...</p>
+          ) : error ? (
+            <p className="text-red-400">Could not load recordings.</p>
+          ) : recordings.length === 0 ? (
+            <div className="text-center py-8 text-gray-400">
+              <Mic className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No recordings or photos yet.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {recordings.map(recording => (
+                <RecordingItem key={recording.id} recording={recording} onDelete={handleDelete} />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Recordings;
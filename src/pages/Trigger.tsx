@@ -0,0 +1,17 @@
+import { Navigate, useLocation } from "react-router-dom";
+import { TriggerRequest, parseTriggerParams } from "@/lib/trigger-link";
+
+export interface TriggerLocationState {
+  trigger: TriggerRequest;
+}
+
+// Hands the request to the home page, which owns the emergency protocol,
+// without leaving /trigger in history for a reload or Back to set off again
+const Trigger = () => {
+  const { search } = useLocation();
+  const state: TriggerLocationState = { trigger: parseTriggerParams(search) };
+
+  return <Navigate to="/" replace state={state} />;
+};
+
+export default Trigger;
@@ -0,0 +1,64 @@
+import type { KeywordModel } from "@/lib/keyword-models"
+import { FRAMES_PER_SECOND, FeatureFrame, alignmentDistance, createFeatureExtractor } from "@/lib/keyword-spotting"
+
+/**
+ * Searches live microphone audio for enrolled trigger phrases, off the
+ * main thread. Audio arrives on the MessagePort handed over in the start
+ * message, straight from the capture worklet.
+ */
+export type SpotterRequest = {
+  type: "start"
+  sampleRate: number
+  models: KeywordModel[]
+  audio: MessagePort
+}
+
+export type SpotterEvent = { type: "detected"; phrase: string; lang: string; distance: number }
+
+// Searching costs far more than extracting features, so it runs five times a second
+const SEARCH_EVERY_FRAMES = FRAMES_PER_SECOND / 5
+
+// Only audio this much louder than the background is searched, in dB
+const SPEECH_ABOVE_NOISE_DB = 12
+
+// How fast the background estimate may rise, in dB per frame, so a
+// constant noise like a fan soon counts as background
+const NOISE_FLOOR_RISE = 0.02
+
+const respond = (event: SpotterEvent) => self.postMessage(event)
+
+self.onmessage = (event: MessageEvent<SpotterRequest>) => {
+  const { sampleRate, models, audio } = event.data
+  const extractor = createFeatureExtractor(sampleRate)
+  const longest = Math.max(0, ...models.flatMap((model) => model.templates.map((template) => template.length)))
+  const keep = longest * 2
+
+  let frames: FeatureFrame[] = []
+  let sinceSearch = 0
+  let noiseFloor = Infinity
+
+  audio.onmessage = ({ data }: MessageEvent<Float32Array>) => {
+    const fresh = extractor.push(data)
+    for (const frame of fresh) {
+      noiseFloor = Math.min(frame.energy, noiseFloor + NOISE_FLOOR_RISE)
+    }
+    frames = [...frames, ...fresh].slice(-keep)
+    sinceSearch += fresh.length
+    if (sinceSearch < SEARCH_EVERY_FRAMES || frames.length < longest / 2) return
+    sinceSearch = 0
+
+    const recent = frames.slice(-SEARCH_EVERY_FRAMES * 2)
+    if (!recent.some((frame) => frame.energy > noiseFloor + SPEECH_ABOVE_NOISE_DB)) return
+
+    const heard = frames.map((frame) => frame.coefficients)
+    for (const model of models) {
+      const distance = Math.min(...model.templates.map((template) => alignmentDistance(template, heard, true)))
+      if (distance <= model.threshold) {
+        respond({ type: "detected", phrase: model.phrase, lang: model.lang, distance })
+        // So the same words aren't found again on the next search
+        frames = []
+        return
+      }
+    }
+  }
+}